@@ -10,6 +10,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import type {AppliedEffects} from '@/types';
+import {normalizeEffects} from '@/lib/effects';
+import {EFFECT_KEYS, getParameter} from '@/lib/effect-registry';
 
 const SuggestFiltersInputSchema = z.object({
   photoDataUri: z
@@ -20,24 +23,72 @@ const SuggestFiltersInputSchema = z.object({
 });
 export type SuggestFiltersInput = z.infer<typeof SuggestFiltersInputSchema>;
 
-const SuggestFiltersOutputSchema = z.object({
-  suggestedFilters: z
-    .array(z.string())
+// What the model returns; settings are checked against the effect registry afterwards
+const SuggestionsSchema = z.object({
+  suggestions: z
+    .array(
+      z.object({
+        name: z.string().describe('A short name for the look.'),
+        effects: z
+          .record(z.union([z.number(), z.string(), z.boolean(), z.array(z.string())]))
+          .describe('Only the settings that differ from the defaults, keyed by setting name.'),
+      })
+    )
     .describe('An array of suggested filter combinations.'),
 });
-export type SuggestFiltersOutput = z.infer<typeof SuggestFiltersOutputSchema>;
+
+export type SuggestFiltersOutput = {
+  suggestions: Array<{name: string; effects: AppliedEffects}>;
+};
+
+// One line per setting, straight from the registry so the model sees the real ranges and options
+function describeEffectParameters(): string {
+  return EFFECT_KEYS.filter(key => key !== 'seed')
+    .map(key => {
+      const parameter = getParameter(key);
+      let values: string;
+      switch (parameter.kind) {
+        case 'range':
+          values = `number ${parameter.min}-${parameter.max}${parameter.units ?? ''}, default ${parameter.default}`;
+          break;
+        case 'choice':
+          values = `one of ${parameter.options.map(option => `"${option}"`).join(', ')}, default "${parameter.default}"`;
+          break;
+        case 'set':
+          values = `list of ${parameter.options.map(option => `"${option}"`).join(', ')}`;
+          break;
+        case 'toggle':
+          values = `true or false, default ${parameter.default}`;
+          break;
+        case 'color':
+          values = `hex colour like "${parameter.default}"`;
+          break;
+        default:
+          values = `number, default ${parameter.default}`;
+      }
+      const note = parameter.description ? ` (${parameter.description})` : '';
+      return `- ${key}: ${parameter.label}${note}; ${values}`;
+    })
+    .join('\n');
+}
 
 export async function suggestFilters(input: SuggestFiltersInput): Promise<SuggestFiltersOutput> {
-  return suggestFiltersFlow(input);
+  const {suggestions} = await suggestFiltersFlow(input);
+  // Out-of-range values are clamped and unknown settings dropped
+  return {
+    suggestions: suggestions.map(({name, effects}) => ({name, effects: normalizeEffects(effects)})),
+  };
 }
 
 const prompt = ai.definePrompt({
   name: 'suggestFiltersPrompt',
   input: {schema: SuggestFiltersInputSchema},
-  output: {schema: SuggestFiltersOutputSchema},
+  output: {schema: SuggestionsSchema},
   prompt: `Suggest unique filter combinations based on the content of the uploaded image.
 
   The filter suggestions should be appropriate for the image and create interesting artistic effects.
+  Each suggestion sets some of these paper cutout settings:
+${describeEffectParameters()}
 
   Image: {{media url=photoDataUri}}
   `,
@@ -47,10 +98,10 @@ const suggestFiltersFlow = ai.defineFlow(
   {
     name: 'suggestFiltersFlow',
     inputSchema: SuggestFiltersInputSchema,
-    outputSchema: SuggestFiltersOutputSchema,
+    outputSchema: SuggestionsSchema,
   },
   async input => {
     const {output} = await prompt(input);
-    return output!;
+    return output ?? {suggestions: []};
   }
 );
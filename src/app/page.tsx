@@ -1,7 +1,7 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Header } from '@/components/header';
 import { Footer } from '@/components/footer';
 import { ImageUploader } from '@/components/image-uploader';
@@ -11,31 +11,181 @@ import type { AppliedEffects } from '@/types';
 import { initialEffects } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Separator } from '@/components/ui/separator';
+import { ExportDialog } from '@/components/export-dialog';
+import { exportArtwork, downloadBlob, initialExportSettings, type ExportSettings } from '@/lib/export';
+import { createProject, openProject, projectFileName } from '@/lib/project';
+import { HistoryPanel } from '@/components/history-panel';
+import { useUndoShortcuts } from '@/hooks/use-effects-history';
+import { useWorkingSet } from '@/hooks/use-working-set';
+import { WorkingSetStrip } from '@/components/working-set-strip';
+import { usePasteImage } from '@/hooks/use-paste-image';
+import { useUploadValidation } from '@/hooks/use-upload-validation';
+import { copyPngToClipboard, supportsImageCopy } from '@/lib/clipboard';
+import { useUrlEffects } from '@/hooks/use-url-effects';
+import { PresetsPanel } from '@/components/presets-panel';
+import { usePresets } from '@/hooks/use-presets';
+import { BUILT_IN_PRESETS, exportPresetPack, findMatchingPreset, type Preset } from '@/lib/presets';
+import { BatchDialog } from '@/components/batch-dialog';
+import { useBatchExport } from '@/hooks/use-batch-export';
+import { batchZipFilename } from '@/lib/batch';
 
 
 export default function ArtifexCanvasPage() {
-  const [uploadedImageFile, setUploadedImageFile] = useState<File | null>(null);
-  const [effects, setEffects] = useState<AppliedEffects>(initialEffects);
+  const workingSet = useWorkingSet(initialEffects);
+  const { effects, setEffects, history, undo, redo, goTo, reset, canUndo, canRedo, activeImage } = workingSet;
+  const uploadedImageFile = activeImage?.file ?? null;
+  const activeFrame = activeImage?.frame ?? 0;
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(initialExportSettings);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { presets, savePreset, renamePreset, deletePreset, importPack } = usePresets();
+  const batch = useBatchExport();
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
   const { toast } = useToast();
+  const checkUploads = useUploadValidation();
+  useUndoShortcuts(undo, redo);
+  useUrlEffects(effects, reset);
+  // Checked after mount: the server render has no clipboard
+  const [canCopy, setCanCopy] = useState(false);
+  useEffect(() => setCanCopy(supportsImageCopy()), []);
+
+  const activePreset = findMatchingPreset([...BUILT_IN_PRESETS, ...presets], effects);
 
   const handleImageUpload = (file: File) => {
-    setUploadedImageFile(file);
+    const image = workingSet.add(file);
     toast({ title: "Image Uploaded", description: `${file.name} is ready for editing.` });
+    return image.id;
+  };
+
+  usePasteImage(
+    (pasted) =>
+      checkUploads([pasted], ([file]) => {
+        workingSet.add(file);
+        toast({ title: "Image Pasted", description: `${file.name} is ready for editing.` });
+      }),
+    () => toast({ title: "Nothing to Paste", description: "The clipboard doesn't contain an image.", variant: "destructive" })
+  );
+
+  const handleCopyToClipboard = async () => {
+    if (!uploadedImageFile) return;
+    // The clipboard only takes PNG reliably, whatever format is chosen for export
+    const png = exportArtwork(uploadedImageFile, effects, { ...exportSettings, format: 'png' }, activePreset?.name, activeFrame).then(({ blob }) => blob);
+    try {
+      await copyPngToClipboard(png);
+      toast({ title: "Copied to Clipboard", description: "Paste the artwork into any app that accepts images." });
+    } catch (error) {
+      console.error(error);
+      const description = error instanceof Error ? error.message : "The artwork could not be copied.";
+      toast({ title: "Copy Failed", description, variant: "destructive" });
+    }
+  };
+
+  const handleCopySettings = () => {
+    workingSet.copySettings();
+    toast({ title: "Settings Copied", description: "Select another image and paste to apply them." });
+  };
+
+  // Applied to the image the settings came from, even if another one is being edited by now
+  const handleRestoreSettings = (imageId: string, restored: AppliedEffects) => {
+    if (!workingSet.setImageEffects(imageId, restored)) return;
+    toast({ title: "Settings Restored", description: "The effect settings from the exported image have been applied." });
   };
 
-  const handleDownload = () => {
-    const canvas = document.querySelector('canvas'); 
-    if (canvas && uploadedImageFile) {
-      const dataUrl = canvas.toDataURL(uploadedImageFile.type === 'image/png' ? 'image/png' : 'image/jpeg');
-      const link = document.createElement('a');
-      link.href = dataUrl;
-      link.download = `artifex_${uploadedImageFile.name}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      toast({ title: "Image Downloaded", description: "Your artwork is saved!" });
-    } else {
+  const handleDownload = async () => {
+    if (!uploadedImageFile) {
       toast({ title: "Download Failed", description: "No image to download or preview not ready.", variant: "destructive" });
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const { blob, filename, width, height } = await exportArtwork(uploadedImageFile, effects, exportSettings, activePreset?.name, activeFrame);
+      downloadBlob(blob, filename);
+      setIsExportDialogOpen(false);
+      toast({ title: "Image Downloaded", description: `Your artwork is saved as ${filename} at ${width}×${height}px!` });
+    } catch (error) {
+      console.error(error);
+      const description = error instanceof Error ? error.message : "The image could not be rendered for export.";
+      toast({ title: "Download Failed", description, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleBatchUpload = (files: File[]) => {
+    batch.addFiles(files);
+    setIsBatchDialogOpen(true);
+  };
+
+  // Files added from inside the batch dialog haven't been through the uploader's checks
+  const handleBatchAddFiles = (files: File[]) => checkUploads(files, batch.addFiles);
+
+  const handleBatchStart = async (batchEffects: AppliedEffects, presetName: string | null) => {
+    await batch.start(batchEffects, exportSettings, presetName);
+  };
+
+  const handleBatchDownload = async () => {
+    setIsZipping(true);
+    try {
+      const filename = batchZipFilename();
+      downloadBlob(await batch.createZip(), filename);
+      toast({ title: "Batch Downloaded", description: `Saved as ${filename}.` });
+    } catch (error) {
+      console.error(error);
+      const description = error instanceof Error ? error.message : "The zip could not be created.";
+      toast({ title: "Download Failed", description, variant: "destructive" });
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleApplyPreset = (preset: Preset) => {
+    setEffects(preset.effects, { coalesce: false });
+  };
+
+  const handleSavePreset = (name: string, current: AppliedEffects) => {
+    const preset = savePreset(name, current);
+    toast({ title: "Preset Saved", description: `"${preset.name}" is now in your presets.` });
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const count = importPack(await file.text());
+      toast({ title: "Presets Imported", description: `${count} preset${count === 1 ? '' : 's'} added from ${file.name}.` });
+    } catch (error) {
+      const description = error instanceof Error ? error.message : "The preset pack could not be read.";
+      toast({ title: "Import Failed", description, variant: "destructive" });
+    }
+  };
+
+  const handleExportPresets = () => {
+    downloadBlob(exportPresetPack(presets), 'artifex-presets.json');
+  };
+
+  const handleSaveProject = async () => {
+    if (!uploadedImageFile) return;
+    try {
+      const filename = projectFileName(uploadedImageFile.name);
+      downloadBlob(await createProject(uploadedImageFile, effects), filename);
+      toast({ title: "Project Saved", description: `Saved as ${filename}.` });
+    } catch (error) {
+      console.error(error);
+      toast({ title: "Save Failed", description: "The project could not be saved.", variant: "destructive" });
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = await openProject(file);
+      // The bundled image gets the same checks (and downscale offer) as an upload
+      await checkUploads([project.file], ([image]) => {
+        workingSet.add(image, project.effects);
+        toast({ title: "Project Opened", description: `${image.name} is ready for editing.` });
+      });
+    } catch (error) {
+      console.error(error);
+      const description = error instanceof Error ? error.message : "The project could not be opened.";
+      toast({ title: "Open Failed", description, variant: "destructive" });
     }
   };
 
@@ -47,24 +197,86 @@ export default function ArtifexCanvasPage() {
           <div className="lg:col-span-1 flex flex-col gap-6 lg:gap-8">
             <ImageUploader 
               onImageUpload={handleImageUpload} 
+              onBatchUpload={handleBatchUpload}
+              onRestoreSettings={handleRestoreSettings}
               uploadedFileName={uploadedImageFile?.name || null}
             />
+            <PresetsPanel
+              presets={presets}
+              activePresetId={activePreset?.id ?? null}
+              effects={effects}
+              onApply={handleApplyPreset}
+              onSave={handleSavePreset}
+              onRename={renamePreset}
+              onDelete={deletePreset}
+              onImport={handleImportPresets}
+              onExport={handleExportPresets}
+            />
             <EffectsPanel
               currentImage={uploadedImageFile}
               effects={effects}
               onEffectsChange={setEffects}
-              onDownload={handleDownload}
+              onDownload={() => setIsExportDialogOpen(true)}
+              onCopyToClipboard={handleCopyToClipboard}
+              canCopy={canCopy}
+              onSaveProject={handleSaveProject}
+              onOpenProject={handleOpenProject}
             />
           </div>
 
-          <div className="lg:col-span-2">
-            <ImagePreview imageFile={uploadedImageFile} effects={effects} />
+          <div className="lg:col-span-2 flex flex-col gap-6 lg:gap-8">
+            {workingSet.images.length > 0 && (
+              <WorkingSetStrip
+                images={workingSet.images}
+                activeId={activeImage?.id ?? null}
+                onSelect={workingSet.select}
+                onRemove={workingSet.remove}
+                onCopySettings={handleCopySettings}
+                onPasteSettings={workingSet.pasteSettings}
+                canPaste={workingSet.copiedEffects !== null}
+              />
+            )}
+            <ImagePreview imageFile={uploadedImageFile} effects={effects} frame={activeFrame} onFrameChange={workingSet.selectFrame} />
+            <HistoryPanel
+              history={history}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onSelect={goTo}
+            />
           </div>
         </div>
 
         {/* The Separator and Paper Effect Demonstrations Card have been removed */}
         
       </main>
+      <ExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        fileName={uploadedImageFile?.name ?? null}
+        presetName={activePreset?.name ?? null}
+        settings={exportSettings}
+        onSettingsChange={setExportSettings}
+        onExport={handleDownload}
+        isExporting={isExporting}
+      />
+      <BatchDialog
+        open={isBatchDialogOpen}
+        onOpenChange={setIsBatchDialogOpen}
+        items={batch.items}
+        isRunning={batch.isRunning}
+        presets={[...BUILT_IN_PRESETS, ...presets]}
+        effects={effects}
+        settings={exportSettings}
+        onAddFiles={handleBatchAddFiles}
+        onRemove={batch.removeItem}
+        onClear={batch.clear}
+        onStart={handleBatchStart}
+        onCancel={batch.cancel}
+        onDownload={handleBatchDownload}
+        isZipping={isZipping}
+      />
       <Footer />
     </div>
   );
@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { AppliedEffects } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, Circle, FileArchive, Loader2, Play, Square, Upload, X } from 'lucide-react';
+import { EXPORT_FORMAT_LABELS, type ExportSettings } from '@/lib/export';
+import type { BatchItem, BatchItemStatus } from '@/lib/batch';
+import type { Preset } from '@/lib/presets';
+import { cn } from '@/lib/utils';
+
+// Select value for "use the settings currently in the editor"
+const CURRENT_SETTINGS = 'current';
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  rendering: 'Rendering',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+interface BatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: BatchItem[];
+  isRunning: boolean;
+  presets: Preset[];
+  effects: AppliedEffects;
+  settings: ExportSettings;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+  onStart: (effects: AppliedEffects, presetName: string | null) => void;
+  onCancel: () => void;
+  onDownload: () => void;
+  isZipping: boolean;
+}
+
+function StatusIcon({ status }: { status: BatchItemStatus }) {
+  switch (status) {
+    case 'rendering':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-primary" />;
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+}
+
+export function BatchDialog({
+  open,
+  onOpenChange,
+  items,
+  isRunning,
+  presets,
+  effects,
+  settings,
+  onAddFiles,
+  onRemove,
+  onClear,
+  onStart,
+  onCancel,
+  onDownload,
+  isZipping,
+}: BatchDialogProps) {
+  const [presetId, setPresetId] = useState(CURRENT_SETTINGS);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const remaining = items.length - done;
+
+  const handleStart = () => {
+    const preset = presets.find(p => p.id === presetId);
+    onStart(preset ? preset.effects : effects, preset?.name ?? null);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length) onAddFiles(files);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Batch Export</DialogTitle>
+          <DialogDescription>
+            Apply one look to many images. Each is rendered at full resolution as {EXPORT_FORMAT_LABELS[settings.format]}{' '}
+            at {settings.scale}× using the export settings, within the size the browser can render. Animated GIFs and
+            multi-page TIFFs export their first frame.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            className="flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-muted-foreground/50 p-4 text-center hover:border-primary transition-colors cursor-pointer"
+            onClick={() => fileInputRef.current?.click()}
+            onDrop={handleDrop}
+            onDragOver={(event) => event.preventDefault()}
+          >
+            <Upload className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Drop images here or click to add</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(event) => {
+                const files = Array.from(event.target.files ?? []);
+                if (files.length) onAddFiles(files);
+                event.target.value = '';
+              }}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="batchPreset" className="text-sm font-medium">
+              Look
+            </Label>
+            <Select value={presetId} onValueChange={setPresetId} disabled={isRunning}>
+              <SelectTrigger id="batchPreset" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_SETTINGS}>Current settings</SelectItem>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {items.length > 0 && (
+            <>
+              <div className="space-y-1">
+                <Progress value={(finished / items.length) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {done} of {items.length} done{failed > 0 && `, ${failed} failed`}
+                </p>
+              </div>
+              <ScrollArea className="h-56 rounded-md border">
+                <ul className="p-1">
+                  {items.map(item => (
+                    <li key={item.id} className="flex items-start gap-2 rounded px-2 py-1.5 text-sm">
+                      <span className="mt-0.5" title={STATUS_LABELS[item.status]}>
+                        <StatusIcon status={item.status} />
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <p className={cn('truncate', item.status === 'cancelled' && 'text-muted-foreground')}>{item.file.name}</p>
+                        {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+                        {item.result && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.result.width}×{item.result.height}px
+                          </p>
+                        )}
+                      </div>
+                      {!isRunning && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label={`Remove ${item.file.name}`}
+                          onClick={() => onRemove(item.id)}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {items.length > 0 && !isRunning && (
+            <Button variant="ghost" onClick={onClear} className="sm:mr-auto">
+              Clear list
+            </Button>
+          )}
+          {isRunning ? (
+            <Button variant="outline" onClick={onCancel}>
+              <Square className="mr-2 h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={handleStart} disabled={remaining === 0}>
+              <Play className="mr-2 h-4 w-4" />
+              {done > 0 || failed > 0 ? `Render remaining (${remaining})` : 'Render all'}
+            </Button>
+          )}
+          <Button onClick={onDownload} disabled={done === 0 || isRunning || isZipping} className="bg-primary hover:bg-primary/90">
+            <FileArchive className="mr-2 h-4 w-4" />
+            {isZipping ? 'Zipping...' : `Download zip (${done})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
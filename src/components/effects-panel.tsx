@@ -1,14 +1,27 @@
 
 'use client';
 
-import React from 'react';
+import React, { useRef } from 'react';
 import type { AppliedEffects } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
-import { Download, Wand2, Settings } from 'lucide-react'; // Changed icon
+import { Download, Wand2, Settings, Dices, Save, FolderOpen, Copy } from 'lucide-react'; // Changed icon
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { randomSeed } from '@/lib/random';
+import {
+  PARAMETER_GROUPS,
+  PARAMETER_GROUP_LABELS,
+  formatEffectValue,
+  getParameter,
+  parametersInGroup,
+  type EffectKey,
+} from '@/lib/effect-registry';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PROJECT_FILE_EXTENSION } from '@/lib/project';
 // import { suggestFilters, type SuggestFiltersInput } from '@/ai/flows/suggest-filters'; // AI suggestions removed for now
 // import { useToast } from '@/hooks/use-toast'; // Toast might be used if AI comes back
 
@@ -17,30 +30,162 @@ interface EffectsPanelProps {
   effects: AppliedEffects;
   onEffectsChange: (newEffects: AppliedEffects) => void;
   onDownload: () => void;
+  onCopyToClipboard: () => void;
+  canCopy: boolean;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
 }
 
-export function EffectsPanel({ currentImage, effects, onEffectsChange, onDownload }: EffectsPanelProps) {
+export function EffectsPanel({ currentImage, effects, onEffectsChange, onDownload, onCopyToClipboard, canCopy, onSaveProject, onOpenProject }: EffectsPanelProps) {
+  const projectInputRef = useRef<HTMLInputElement>(null);
   // const [isLoadingAi, setIsLoadingAi] = useState(false); // AI suggestions removed
   // const [aiSuggestions, setAiSuggestions] = useState<string[]>([]); // AI suggestions removed
   // const { toast } = useToast(); // AI suggestions removed
 
-  const handleEffectChange = <K extends keyof AppliedEffects>(key: K, value: AppliedEffects[K]) => {
+  // Values come from controls built off the registry, so they match the setting's type
+  const handleEffectChange = (key: EffectKey, value: AppliedEffects[EffectKey]) => {
     onEffectsChange({ ...effects, [key]: value });
   };
 
-  const animationControls: Array<{ id: keyof AppliedEffects; label: string; min: number; max: number; step: number; defaultValue: number }> = [
-    { id: 'animSize', label: 'Size', min: 10, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animEdgeThickness', label: 'Edge thickness', min: 0, max: 100, step: 1, defaultValue: 35 },
-    { id: 'animEdgeIntensity', label: 'Edge intensity', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animEdgeDetails', label: 'Edge details', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animCutoutStyle', label: 'Cutout style', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animTextureStrength', label: 'Texture strength', min: 0, max: 100, step: 1, defaultValue: 30 },
-    { id: 'animShadowOffsetX', label: 'Shadow offset X', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animShadowOffsetY', label: 'Shadow offset Y', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animShadowBlur', label: 'Shadow blur', min: 0, max: 100, step: 1, defaultValue: 20 },
-    { id: 'animShadowStrength', label: 'Shadow strength', min: 0, max: 100, step: 1, defaultValue: 50 },
-    { id: 'animMovement', label: 'Movement', min: 0, max: 100, step: 1, defaultValue: 50 },
-  ];
+  const toggleSetOption = (key: EffectKey, options: readonly string[], option: string, selected: boolean) => {
+    const current = effects[key] as readonly string[];
+    // Keep the registry's option order
+    handleEffectChange(key, options.filter(o => (o === option ? selected : current.includes(o))) as AppliedEffects[EffectKey]);
+  };
+
+  const renderParameter = (key: EffectKey) => {
+    const parameter = getParameter(key);
+    if (parameter.visibleWhen && !parameter.visibleWhen(effects)) return null;
+
+    switch (parameter.kind) {
+      case 'range': {
+        const value = effects[key] as number;
+        return (
+          <div key={key}>
+            <div className="flex justify-between items-center mb-1">
+              <Label htmlFor={key} className="text-sm font-medium">
+                {parameter.label}
+              </Label>
+              <span className="text-sm text-muted-foreground w-12 text-right">{formatEffectValue(key, value)}</span>
+            </div>
+            <Slider
+              id={key}
+              min={parameter.min}
+              max={parameter.max}
+              step={parameter.step}
+              value={[value]}
+              onValueChange={([next]) => handleEffectChange(key, next)}
+              className="mt-1"
+            />
+            {parameter.description && <p className="text-xs text-muted-foreground mt-1">{parameter.description}</p>}
+          </div>
+        );
+      }
+      case 'choice':
+        return (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={key} className="text-sm font-medium">
+                {parameter.label}
+              </Label>
+              {parameter.description && <p className="text-xs text-muted-foreground">{parameter.description}</p>}
+            </div>
+            <Select value={effects[key] as string} onValueChange={(value) => handleEffectChange(key, value)}>
+              <SelectTrigger id={key} className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {parameter.options.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {parameter.optionLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'set':
+        return (
+          <div key={key} className="space-y-2">
+            <Label className="text-sm font-medium">{parameter.label}</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {parameter.options.map(option => (
+                <div key={option} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${key}-${option}`}
+                    checked={(effects[key] as readonly string[]).includes(option)}
+                    onCheckedChange={(checked) => toggleSetOption(key, parameter.options, option, checked === true)}
+                  />
+                  <Label htmlFor={`${key}-${option}`} className="text-sm">
+                    {parameter.optionLabels[option]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'toggle':
+        return (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={key} className="text-sm font-medium">
+                {parameter.label}
+              </Label>
+              {parameter.description && <p className="text-xs text-muted-foreground">{parameter.description}</p>}
+            </div>
+            <Switch id={key} checked={effects[key] as boolean} onCheckedChange={(checked) => handleEffectChange(key, checked)} />
+          </div>
+        );
+      case 'color':
+        return (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={key} className="text-sm font-medium">
+                {parameter.label}
+              </Label>
+              <input
+                id={key}
+                type="color"
+                value={effects[key] as string}
+                onChange={(event) => handleEffectChange(key, event.target.value)}
+                className="h-8 w-12 cursor-pointer rounded border border-input bg-background"
+              />
+            </div>
+            {parameter.swatches && (
+              <div className="flex flex-wrap gap-2">
+                {parameter.swatches.map(swatch => (
+                  <button
+                    key={swatch.value}
+                    type="button"
+                    title={swatch.label}
+                    aria-label={swatch.label}
+                    onClick={() => handleEffectChange(key, swatch.value)}
+                    className={`h-6 w-6 rounded-full border ${effects[key] === swatch.value ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+                    style={{ backgroundColor: swatch.value }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      case 'seed':
+        return (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">
+              {parameter.label} <span className="font-code">{effects.seed}</span>
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleEffectChange('seed', randomSeed())}
+            >
+              <Dices className="mr-2 h-4 w-4" />
+              Re-roll tear
+            </Button>
+          </div>
+        );
+    }
+  };
 
   return (
     <Card className="shadow-lg">
@@ -52,24 +197,11 @@ export function EffectsPanel({ currentImage, effects, onEffectsChange, onDownloa
         <CardDescription>Adjust animation properties for your image.</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {animationControls.map(control => (
-          <div key={control.id}>
-            <div className="flex justify-between items-center mb-1">
-              <Label htmlFor={control.id} className="text-sm font-medium">
-                {control.label}
-              </Label>
-              <span className="text-sm text-muted-foreground w-8 text-right">{effects[control.id]}</span>
-            </div>
-            <Slider
-              id={control.id}
-              min={control.min}
-              max={control.max}
-              step={control.step}
-              value={[effects[control.id] as number]}
-              onValueChange={([value]) => handleEffectChange(control.id, value)}
-              className="mt-1"
-            />
-          </div>
+        {PARAMETER_GROUPS.map(group => (
+          <section key={group} className="space-y-6">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{PARAMETER_GROUP_LABELS[group]}</h3>
+            {parametersInGroup(group).map(renderParameter)}
+          </section>
         ))}
         
         <Separator />
@@ -94,8 +226,38 @@ export function EffectsPanel({ currentImage, effects, onEffectsChange, onDownloa
 
         <Button onClick={onDownload} disabled={!currentImage} className="w-full bg-primary hover:bg-primary/90">
           <Download className="mr-2 h-4 w-4" />
-          Download Image
+          Export Image...
         </Button>
+
+        {canCopy && (
+          <Button variant="outline" onClick={onCopyToClipboard} disabled={!currentImage} className="w-full">
+            <Copy className="mr-2 h-4 w-4" />
+            Copy to clipboard
+          </Button>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={onSaveProject} disabled={!currentImage}>
+            <Save className="mr-2 h-4 w-4" />
+            Save project
+          </Button>
+          <Button variant="outline" onClick={() => projectInputRef.current?.click()}>
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Open project
+          </Button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={PROJECT_FILE_EXTENSION}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onOpenProject(file);
+              // Allow reopening the same file
+              event.target.value = '';
+            }}
+          />
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,214 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import {
+  EXPORT_BACKGROUNDS,
+  EXPORT_BACKGROUND_LABELS,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_METADATA_LABELS,
+  EXPORT_METADATA_MODES,
+  EXPORT_SCALES,
+  CUSTOM_PRESET_NAME,
+  formatExportFilename,
+  supportsTransparency,
+  type ExportBackground,
+  type ExportFormat,
+  type ExportMetadata,
+  type ExportScale,
+  type ExportSettings,
+} from '@/lib/export';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string | null;
+  presetName: string | null;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+export function ExportDialog({ open, onOpenChange, fileName, presetName, settings, onSettingsChange, onExport, isExporting }: ExportDialogProps) {
+  const handleSettingChange = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const handleFormatChange = (format: ExportFormat) => {
+    // JPEG has no alpha channel, so a transparent background becomes a solid one
+    const background = settings.background === 'transparent' && !supportsTransparency(format) ? 'color' : settings.background;
+    onSettingsChange({ ...settings, format, background });
+  };
+
+  const lossy = settings.format !== 'png';
+  const filenamePreview = formatExportFilename(settings.filenameTemplate, { name: fileName ?? 'image', preset: presetName ?? CUSTOM_PRESET_NAME }, settings.format);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Export Image</DialogTitle>
+          <DialogDescription>Choose the file format, background and size of the exported artwork.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="exportFormat" className="text-sm font-medium">
+              Format
+            </Label>
+            <Select value={settings.format} onValueChange={(value) => handleFormatChange(value as ExportFormat)}>
+              <SelectTrigger id="exportFormat" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <Label htmlFor="exportQuality" className={`text-sm font-medium ${lossy ? '' : 'text-muted-foreground'}`}>
+                Quality
+              </Label>
+              <span className="text-sm text-muted-foreground w-8 text-right">{lossy ? settings.quality : '—'}</span>
+            </div>
+            <Slider
+              id="exportQuality"
+              min={1}
+              max={100}
+              step={1}
+              value={[settings.quality]}
+              disabled={!lossy}
+              onValueChange={([value]) => handleSettingChange('quality', value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="exportBackground" className="text-sm font-medium">
+              Background
+            </Label>
+            <div className="flex items-center gap-2">
+              {settings.background === 'color' && (
+                <input
+                  type="color"
+                  aria-label="Background colour"
+                  value={settings.backgroundColor}
+                  onChange={(event) => handleSettingChange('backgroundColor', event.target.value)}
+                  className="h-8 w-10 cursor-pointer rounded border border-input bg-background"
+                />
+              )}
+              <Select
+                value={settings.background}
+                onValueChange={(value) => handleSettingChange('background', value as ExportBackground)}
+              >
+                <SelectTrigger id="exportBackground" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_BACKGROUNDS.map(background => (
+                    <SelectItem
+                      key={background}
+                      value={background}
+                      disabled={background === 'transparent' && !supportsTransparency(settings.format)}
+                    >
+                      {EXPORT_BACKGROUND_LABELS[background]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="exportScale" className="text-sm font-medium">
+              Scale
+            </Label>
+            <Select
+              value={String(settings.scale)}
+              onValueChange={(value) => handleSettingChange('scale', Number(value) as ExportScale)}
+            >
+              <SelectTrigger id="exportScale" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_SCALES.map(scale => (
+                  <SelectItem key={scale} value={String(scale)}>
+                    {scale === 1 ? 'Native (1×)' : `${scale}×`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="exportMetadata" className="text-sm font-medium">
+                Metadata
+              </Label>
+              <Select
+                value={settings.metadata}
+                onValueChange={(value) => handleSettingChange('metadata', value as ExportMetadata)}
+              >
+                <SelectTrigger id="exportMetadata" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_METADATA_MODES.map(mode => (
+                    <SelectItem key={mode} value={mode}>
+                      {EXPORT_METADATA_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {settings.metadata === 'original'
+                ? 'Carries over the photo’s EXIF data, including camera details and any GPS location.'
+                : 'Camera details and GPS location from the original photo are removed.'}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="exportFilename" className="text-sm font-medium">
+              File name
+            </Label>
+            <Input
+              id="exportFilename"
+              value={settings.filenameTemplate}
+              onChange={(event) => handleSettingChange('filenameTemplate', event.target.value)}
+              className="font-code"
+            />
+            <p className="text-xs text-muted-foreground">
+              Use <span className="font-code">{'{name}'}</span>, <span className="font-code">{'{preset}'}</span> and{' '}
+              <span className="font-code">{'{date}'}</span>. Saves as <span className="font-code break-all">{filenamePreview}</span>
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onExport} disabled={!fileName || isExporting} className="bg-primary hover:bg-primary/90">
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
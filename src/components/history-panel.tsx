@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { effectLabel, formatEffectValue } from '@/lib/effect-registry';
+import type { EffectsHistory, HistoryEntry } from '@/lib/history';
+import { cn } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  history: EffectsHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+}
+
+function describeEntry(entry: HistoryEntry): string {
+  if (entry.changes.length === 0) return 'Starting settings';
+  if (entry.changes.length > 3) return `${entry.changes.length} settings changed`;
+  return entry.changes
+    .map(({ key, from, to }) => `${effectLabel(key)} ${formatEffectValue(key, from)} → ${formatEffectValue(key, to)}`)
+    .join(', ');
+}
+
+export function HistoryPanel({ history, canUndo, canRedo, onUndo, onRedo, onSelect }: HistoryPanelProps) {
+  // Newest first, keeping each entry's position in the history
+  const entries = history.entries.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <History className="h-6 w-6 text-primary" />
+          History
+        </CardTitle>
+        <CardDescription>Undo with Ctrl/Cmd+Z, redo with Shift+Ctrl/Cmd+Z.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={onUndo} disabled={!canUndo}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo
+          </Button>
+          <Button variant="outline" onClick={onRedo} disabled={!canRedo}>
+            <Redo2 className="mr-2 h-4 w-4" />
+            Redo
+          </Button>
+        </div>
+        <ScrollArea className="h-48 rounded-md border">
+          <ol className="p-1">
+            {entries.map(({ entry, index }) => (
+              <li key={`${index}-${entry.time}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(index)}
+                  className={cn(
+                    'w-full rounded px-2 py-1.5 text-left text-sm hover:bg-muted',
+                    index === history.index && 'bg-muted font-medium',
+                    index > history.index && 'text-muted-foreground line-through'
+                  )}
+                >
+                  {describeEntry(entry)}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,30 +2,60 @@
 
 import type React from 'react';
 import { useCallback } from 'react';
-import { UploadCloud } from 'lucide-react';
+import { Layers, UploadCloud } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useUploadValidation } from '@/hooks/use-upload-validation';
+import type { AppliedEffects } from '@/types';
+import { readArtworkSettings } from '@/lib/metadata/artwork-settings';
+import { IMAGE_FORMATS, IMAGE_FORMAT_LABELS } from '@/lib/image-format';
 
 interface ImageUploaderProps {
-  onImageUpload: (file: File) => void;
+  onImageUpload: (file: File) => string; // Returns the working-set id of the new image
+  onBatchUpload: (files: File[]) => void;
+  onRestoreSettings: (imageId: string, effects: AppliedEffects) => void;
   uploadedFileName: string | null;
 }
 
-export function ImageUploader({ onImageUpload, uploadedFileName }: ImageUploaderProps) {
+export function ImageUploader({ onImageUpload, onBatchUpload, onRestoreSettings, uploadedFileName }: ImageUploaderProps) {
+  const { toast } = useToast();
+  const checkUploads = useUploadValidation();
+
+  // Images exported by Artifex carry their settings; offer to pick up where they left off
+  const handleFile = useCallback(async (file: File) => {
+    const imageId = onImageUpload(file);
+    const settings = await readArtworkSettings(file);
+    if (!settings) return;
+    toast({
+      title: "Artifex Settings Found",
+      description: `${file.name} was exported with Artifex ${settings.appVersion}. Restore its effect settings?`,
+      action: (
+        <ToastAction altText="Restore settings" onClick={() => onRestoreSettings(imageId, settings.effects)}>
+          Restore
+        </ToastAction>
+      ),
+    });
+  }, [onImageUpload, onRestoreSettings, toast]);
+
+  // Every valid image joins the working set; batch export has its own picker. Anything
+  // else is reported by validation rather than silently dropped.
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    checkUploads(files, accepted => accepted.forEach(handleFile));
+  }, [checkUploads, handleFile]);
+
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onImageUpload(file);
-    }
-  }, [onImageUpload]);
+    handleFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  }, [handleFiles]);
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
-    const file = event.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      onImageUpload(file);
-    }
-  }, [onImageUpload]);
+    handleFiles(Array.from(event.dataTransfer.files ?? []));
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -39,9 +69,9 @@ export function ImageUploader({ onImageUpload, uploadedFileName }: ImageUploader
           <UploadCloud className="h-6 w-6 text-primary" />
           Upload Your Image
         </CardTitle>
-        <CardDescription>Drag & drop an image or click to select.</CardDescription>
+        <CardDescription>Drag & drop an image, click to select or paste with Ctrl/Cmd+V. Drop several to edit them side by side.</CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-2">
         <div
           className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-muted-foreground/50 rounded-lg cursor-pointer hover:border-primary transition-colors h-48"
           onClick={() => document.getElementById('fileInput')?.click()}
@@ -52,6 +82,7 @@ export function ImageUploader({ onImageUpload, uploadedFileName }: ImageUploader
             type="file"
             id="fileInput"
             accept="image/*"
+            multiple
             className="hidden"
             onChange={handleFileChange}
           />
@@ -59,8 +90,12 @@ export function ImageUploader({ onImageUpload, uploadedFileName }: ImageUploader
           <p className="text-muted-foreground text-sm">
             {uploadedFileName ? `Selected: ${uploadedFileName}` : 'Click or drag file to this area to upload'}
           </p>
-          <p className="text-xs text-muted-foreground/70 mt-1">PNG, JPG, GIF, WEBP</p>
+          <p className="text-xs text-muted-foreground/70 mt-1">{IMAGE_FORMATS.map(format => IMAGE_FORMAT_LABELS[format]).join(', ')}</p>
         </div>
+        <Button variant="outline" className="w-full" onClick={() => onBatchUpload([])}>
+          <Layers className="mr-2 h-4 w-4" />
+          Batch export...
+        </Button>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { AppliedEffects } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Bookmark, Check, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { BUILT_IN_PRESETS, MAX_PRESET_NAME_LENGTH, PRESET_PACK_EXTENSION, type Preset } from '@/lib/presets';
+import { cn } from '@/lib/utils';
+
+interface PresetsPanelProps {
+  presets: Preset[];
+  activePresetId: string | null;
+  effects: AppliedEffects;
+  onApply: (preset: Preset) => void;
+  onSave: (name: string, effects: AppliedEffects) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export function PresetsPanel({ presets, activePresetId, effects, onApply, onSave, onRename, onDelete, onImport, onExport }: PresetsPanelProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    onSave(newName, effects);
+    setNewName('');
+  };
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const renderPreset = (preset: Preset) => (
+    <li key={preset.id} className="flex items-center gap-1">
+      {editingId === preset.id ? (
+        <form
+          className="flex flex-1 items-center gap-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            commitRename();
+          }}
+        >
+          <Input
+            autoFocus
+            value={editingName}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            onChange={(event) => setEditingName(event.target.value)}
+            onKeyDown={(event) => event.key === 'Escape' && setEditingId(null)}
+            className="h-8"
+            aria-label="Preset name"
+          />
+          <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" aria-label="Save name">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" aria-label="Cancel rename" onClick={() => setEditingId(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={() => onApply(preset)}
+            className={cn(
+              'flex-1 truncate rounded px-2 py-1.5 text-left text-sm hover:bg-muted',
+              preset.id === activePresetId && 'bg-muted font-medium'
+            )}
+          >
+            {preset.name}
+          </button>
+          {!preset.builtIn && (
+            <>
+              <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Rename ${preset.name}`} onClick={() => startRename(preset)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Delete ${preset.name}`} onClick={() => onDelete(preset.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <Bookmark className="h-6 w-6 text-primary" />
+          Presets
+        </CardTitle>
+        <CardDescription>Apply a saved look with one click.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-1">{BUILT_IN_PRESETS.map(renderPreset)}</ul>
+
+        {presets.length > 0 && (
+          <>
+            <Separator />
+            <ul className="space-y-1">{presets.map(renderPreset)}</ul>
+          </>
+        )}
+
+        <form className="flex items-center gap-2" onSubmit={handleSave}>
+          <Input
+            value={newName}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            placeholder="Name for current settings"
+            onChange={(event) => setNewName(event.target.value)}
+            aria-label="New preset name"
+          />
+          <Button type="submit" variant="outline" disabled={!newName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import pack
+          </Button>
+          <Button variant="outline" onClick={onExport} disabled={presets.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export pack
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${PRESET_PACK_EXTENSION},application/json`}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onImport(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ClipboardCopy, ClipboardPaste, X } from 'lucide-react';
+import type { WorkingImage } from '@/lib/working-set';
+import { cn } from '@/lib/utils';
+
+interface WorkingSetStripProps {
+  images: WorkingImage[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onCopySettings: () => void;
+  onPasteSettings: () => void;
+  canPaste: boolean;
+}
+
+export function WorkingSetStrip({ images, activeId, onSelect, onRemove, onCopySettings, onPasteSettings, canPaste }: WorkingSetStripProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">
+            Images <span className="text-muted-foreground">({images.length})</span>
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onCopySettings} disabled={!activeId}>
+              <ClipboardCopy className="mr-2 h-4 w-4" />
+              Copy settings
+            </Button>
+            <Button variant="outline" size="sm" onClick={onPasteSettings} disabled={!activeId || !canPaste}>
+              <ClipboardPaste className="mr-2 h-4 w-4" />
+              Paste settings
+            </Button>
+          </div>
+        </div>
+        <ScrollArea className="w-full whitespace-nowrap">
+          <ul className="flex gap-2 pb-3">
+            {images.map(image => (
+              <li key={image.id} className="group relative shrink-0">
+                <button
+                  type="button"
+                  title={image.file.name}
+                  aria-label={`Edit ${image.file.name}`}
+                  aria-pressed={image.id === activeId}
+                  onClick={() => onSelect(image.id)}
+                  className={cn(
+                    'block h-16 w-16 overflow-hidden rounded-md border bg-muted',
+                    image.id === activeId && 'ring-2 ring-primary ring-offset-2'
+                  )}
+                >
+                  <img src={image.thumbnailUrl} alt="" className="h-full w-full object-cover" />
+                </button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  aria-label={`Remove ${image.file.name}`}
+                  onClick={() => onRemove(image.id)}
+                  className="absolute -right-1.5 -top-1.5 h-5 w-5 rounded-full opacity-0 shadow group-hover:opacity-100 focus-visible:opacity-100"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
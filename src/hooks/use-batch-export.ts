@@ -0,0 +1,89 @@
+import * as React from "react"
+
+import type { AppliedEffects } from "@/types"
+import { exportFilename, type ExportSettings } from "@/lib/export"
+import {
+  createBatchExporter,
+  createBatchItems,
+  createBatchZip,
+  type BatchExporter,
+  type BatchItem,
+} from "@/lib/batch"
+
+/**
+ * A queue of images exported one after another with the same effects. Each item
+ * reports its own status so failures don't stop the rest of the batch.
+ */
+export function useBatchExport() {
+  const [items, setItems] = React.useState<BatchItem[]>([])
+  const [isRunning, setIsRunning] = React.useState(false)
+  const exporterRef = React.useRef<BatchExporter | null>(null)
+  const nextIdRef = React.useRef(1)
+  const runRef = React.useRef(0)
+
+  React.useEffect(() => () => exporterRef.current?.dispose(), [])
+
+  const updateItem = React.useCallback((id: number, update: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)))
+  }, [])
+
+  const addFiles = React.useCallback((files: File[]) => {
+    const added = createBatchItems(files, nextIdRef.current)
+    nextIdRef.current += added.length
+    setItems((current) => [...current, ...added])
+  }, [])
+
+  const removeItem = React.useCallback((id: number) => {
+    setItems((current) => current.filter((item) => item.id !== id))
+  }, [])
+
+  const clear = React.useCallback(() => setItems([]), [])
+
+  const start = React.useCallback(
+    async (effects: AppliedEffects, settings: ExportSettings, preset: string | null) => {
+      const run = ++runRef.current
+      // Re-running retries everything that didn't finish
+      const pending = items.filter((item) => item.status !== "done")
+      setItems((current) =>
+        current.map((item) => (item.status === "done" ? item : { ...item, status: "queued", error: undefined }))
+      )
+      setIsRunning(true)
+      const exporter = (exporterRef.current ??= createBatchExporter())
+
+      for (const item of pending) {
+        if (runRef.current !== run) return
+        updateItem(item.id, { status: "rendering" })
+        try {
+          const { blob, width, height } = await exporter.export(item.file, effects, settings)
+          if (runRef.current !== run) return
+          updateItem(item.id, {
+            status: "done",
+            result: { blob, width, height, filename: exportFilename(item.file.name, settings, preset) },
+          })
+        } catch (error) {
+          if (runRef.current !== run) return
+          updateItem(item.id, { status: "failed", error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+      setIsRunning(false)
+    },
+    [items, updateItem]
+  )
+
+  const cancel = React.useCallback(() => {
+    runRef.current++
+    // Terminating the worker is the only way to stop an image mid-render
+    exporterRef.current?.dispose()
+    exporterRef.current = null
+    setItems((current) =>
+      current.map((item) =>
+        item.status === "queued" || item.status === "rendering" ? { ...item, status: "cancelled" } : item
+      )
+    )
+    setIsRunning(false)
+  }, [])
+
+  const createZip = React.useCallback(() => createBatchZip(items), [items])
+
+  return { items, isRunning, addFiles, removeItem, clear, start, cancel, createZip }
+}
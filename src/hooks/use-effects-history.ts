@@ -0,0 +1,90 @@
+import * as React from "react"
+
+import type { AppliedEffects } from "@/types"
+import {
+  commitEffects,
+  createHistory,
+  moveHistory,
+  type EffectsHistory,
+} from "@/lib/history"
+
+type HistoryAction =
+  | { type: "COMMIT"; effects: AppliedEffects; time: number; coalesce: boolean }
+  | { type: "MOVE"; index: number }
+  | { type: "RESET"; effects: AppliedEffects }
+  | { type: "LOAD"; history: EffectsHistory }
+
+function reducer(state: EffectsHistory, action: HistoryAction): EffectsHistory {
+  switch (action.type) {
+    case "COMMIT":
+      return commitEffects(state, action.effects, action.time, action.coalesce)
+    case "MOVE":
+      return moveHistory(state, action.index)
+    case "RESET":
+      return createHistory(action.effects)
+    case "LOAD":
+      return action.history
+  }
+}
+
+/**
+ * Effect settings with undo/redo. `setEffects` coalesces rapid changes to the same
+ * settings (slider drags); pass `{ coalesce: false }` for one-off replacements such as
+ * restoring a project.
+ */
+export function useEffectsHistory(initial: AppliedEffects) {
+  const [history, dispatch] = React.useReducer(reducer, initial, createHistory)
+
+  const setEffects = React.useCallback(
+    (effects: AppliedEffects, options?: { coalesce?: boolean }) =>
+      dispatch({ type: "COMMIT", effects, time: Date.now(), coalesce: options?.coalesce ?? true }),
+    []
+  )
+  const goTo = React.useCallback((index: number) => dispatch({ type: "MOVE", index }), [])
+  // Start over from `effects` with no undo steps, e.g. settings from a shared link
+  const reset = React.useCallback((effects: AppliedEffects) => dispatch({ type: "RESET", effects }), [])
+  // Swap in another history wholesale, e.g. when switching to a different image
+  const load = React.useCallback((saved: EffectsHistory) => dispatch({ type: "LOAD", history: saved }), [])
+  const undo = React.useCallback(() => goTo(history.index - 1), [goTo, history.index])
+  const redo = React.useCallback(() => goTo(history.index + 1), [goTo, history.index])
+
+  return {
+    effects: history.entries[history.index].effects,
+    history,
+    setEffects,
+    undo,
+    redo,
+    goTo,
+    reset,
+    load,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+  }
+}
+
+// Text fields keep their own native undo
+export function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !["checkbox", "radio", "range", "color", "file", "button"].includes(target.type)
+}
+
+// Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === "z") {
+        event.preventDefault()
+        if (event.shiftKey) redo()
+        else undo()
+      } else if (key === "y" && !event.metaKey) {
+        event.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [undo, redo])
+}
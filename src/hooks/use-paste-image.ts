@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { isTextInput } from "@/hooks/use-effects-history"
+import { imageFromClipboard } from "@/lib/clipboard"
+
+// Ctrl/Cmd+V anywhere on the page hands a pasted image to `onImage`; text fields paste as usual
+export function usePasteImage(onImage: (file: File) => void, onNoImage?: () => void) {
+  const onImageRef = React.useRef(onImage)
+  const onNoImageRef = React.useRef(onNoImage)
+  onImageRef.current = onImage
+  onNoImageRef.current = onNoImage
+
+  React.useEffect(() => {
+    const onPaste = async (event: ClipboardEvent) => {
+      if (!event.clipboardData || isTextInput(event.target)) return
+      event.preventDefault()
+      const file = await imageFromClipboard(event.clipboardData)
+      if (file) onImageRef.current(file)
+      else onNoImageRef.current?.()
+    }
+    window.addEventListener("paste", onPaste)
+    return () => window.removeEventListener("paste", onPaste)
+  }, [])
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+
+import type { AppliedEffects } from "@/types"
+import {
+  MAX_PRESET_NAME_LENGTH,
+  createPreset,
+  loadStoredPresets,
+  parsePresetPack,
+  storePresets,
+  type Preset,
+} from "@/lib/presets"
+
+// The user's presets, persisted to localStorage once loaded on the client
+export function usePresets() {
+  const [presets, setPresets] = React.useState<Preset[]>([])
+  const [loaded, setLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    // localStorage is only available after hydration
+    setPresets(loadStoredPresets())
+    setLoaded(true)
+  }, [])
+
+  React.useEffect(() => {
+    if (!loaded) return
+    try {
+      storePresets(presets)
+    } catch (error) {
+      // Storage can be full or disabled; the presets still work for this session
+      console.warn("Could not store presets", error)
+    }
+  }, [presets, loaded])
+
+  const savePreset = React.useCallback((name: string, effects: AppliedEffects) => {
+    const preset = createPreset(name, effects)
+    setPresets((current) => [...current, preset])
+    return preset
+  }, [])
+
+  const renamePreset = React.useCallback((id: string, name: string) => {
+    setPresets((current) => current.map((preset) => (preset.id === id ? { ...preset, name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH) || preset.name } : preset)))
+  }, [])
+
+  const deletePreset = React.useCallback((id: string) => {
+    setPresets((current) => current.filter((preset) => preset.id !== id))
+  }, [])
+
+  // Adds the pack's presets and returns how many were imported; throws for invalid packs
+  const importPack = React.useCallback((text: string) => {
+    const imported = parsePresetPack(text)
+    setPresets((current) => [...current, ...imported])
+    return imported.length
+  }, [])
+
+  return { presets, savePreset, renamePreset, deletePreset, importPack }
+}
@@ -0,0 +1,70 @@
+import * as React from "react"
+
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import {
+  DEFAULT_UPLOAD_LIMITS,
+  describeUploadProblem,
+  downscaleImageFile,
+  validateUpload,
+  type UploadLimits,
+  type UploadProblem,
+} from "@/lib/upload-validation"
+
+type Rejected = { file: File; problem: UploadProblem }
+
+/**
+ * Validates uploads before they reach the editor. Valid files go straight to `onAccepted`;
+ * each rejection gets its own toast, and images too large for a canvas are offered a
+ * downscale that hands the smaller copies to `onAccepted` afterwards.
+ */
+export function useUploadValidation(limits: UploadLimits = DEFAULT_UPLOAD_LIMITS) {
+  const { toast } = useToast()
+
+  const downscale = React.useCallback(
+    async (oversized: Rejected[], onAccepted: (files: File[]) => void) => {
+      try {
+        const files: File[] = []
+        for (const { file, problem } of oversized) {
+          if (problem.kind === "too-many-pixels") files.push(await downscaleImageFile(file, problem.fit))
+        }
+        onAccepted(files)
+      } catch (error) {
+        console.error(error)
+        const description = error instanceof Error ? error.message : "The image could not be downscaled."
+        toast({ title: "Downscale Failed", description, variant: "destructive" })
+      }
+    },
+    [toast]
+  )
+
+  return React.useCallback(
+    async (files: File[], onAccepted: (files: File[]) => void) => {
+      const checks = await Promise.all(files.map((file) => validateUpload(file, limits)))
+      const accepted = files.filter((_, index) => checks[index].ok)
+      const rejected = checks.flatMap((check, index) => (check.ok ? [] : [{ file: files[index], problem: check.problem }]))
+      if (accepted.length) onAccepted(accepted)
+      if (!rejected.length) return
+
+      const oversized = rejected.filter(({ problem }) => problem.kind === "too-many-pixels")
+      const action = oversized.length ? (
+        <ToastAction altText="Downscale images" onClick={() => downscale(oversized, onAccepted)}>
+          Downscale
+        </ToastAction>
+      ) : undefined
+
+      if (rejected.length === 1) {
+        toast({ ...describeUploadProblem(rejected[0].problem, rejected[0].file.name), variant: "destructive", action })
+        return
+      }
+      const reasons = rejected.map(({ file, problem }) => `${file.name}: ${describeUploadProblem(problem, file.name).title}`)
+      toast({
+        title: `${rejected.length} Files Skipped`,
+        description: `${reasons.join("; ")}.${oversized.length ? ` Downscale the ${oversized.length} oversized image${oversized.length === 1 ? "" : "s"}?` : ""}`,
+        variant: "destructive",
+        action,
+      })
+    },
+    [downscale, limits, toast]
+  )
+}
@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import type { AppliedEffects } from "@/types"
+import { effectsFromSearchParams, urlWithEffects } from "@/lib/url-state"
+
+// Wait for slider drags to settle before touching the address bar
+const URL_SYNC_DELAY = 300
+
+/**
+ * Keep the effect settings in the page URL. Settings in the URL at load are passed to
+ * `onLoad` once; afterwards every change replaces the current history entry.
+ */
+export function useUrlEffects(effects: AppliedEffects, onLoad: (effects: AppliedEffects) => void) {
+  const loaded = React.useRef(false)
+
+  React.useEffect(() => {
+    const fromUrl = effectsFromSearchParams(new URLSearchParams(window.location.search))
+    if (fromUrl) onLoad(fromUrl)
+    loaded.current = true
+    // Only the URL the page was opened with is read
+  }, [])
+
+  React.useEffect(() => {
+    if (!loaded.current) return
+    const timer = window.setTimeout(() => {
+      const next = urlWithEffects(window.location.href, effects)
+      if (next !== window.location.href) window.history.replaceState(window.history.state, "", next)
+    }, URL_SYNC_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [effects])
+}
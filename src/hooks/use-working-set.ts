@@ -0,0 +1,131 @@
+import * as React from "react"
+
+import type { AppliedEffects } from "@/types"
+import { useEffectsHistory } from "@/hooks/use-effects-history"
+import { commitEffects } from "@/lib/history"
+import {
+  createThumbnailUrl,
+  createWorkingImage,
+  neighbourAfterRemoval,
+  releaseWorkingImage,
+  type WorkingImage,
+} from "@/lib/working-set"
+
+/**
+ * Several images, each with its own settings and history. The active image's history
+ * lives in useEffectsHistory; the others keep a saved copy until they are selected again.
+ */
+export function useWorkingSet(initial: AppliedEffects) {
+  const editor = useEffectsHistory(initial)
+  const { history, load, setEffects } = editor
+  const [images, setImages] = React.useState<WorkingImage[]>([])
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const [copiedEffects, setCopiedEffects] = React.useState<AppliedEffects | null>(null)
+
+  const imagesRef = React.useRef(images)
+  imagesRef.current = images
+  const activeIdRef = React.useRef(activeId)
+  activeIdRef.current = activeId
+  React.useEffect(() => () => imagesRef.current.forEach(releaseWorkingImage), [])
+
+  // The active image's saved copy is stale while it is being edited; refresh it before switching away
+  const stashActive = React.useCallback(
+    (current: WorkingImage[]) => current.map((image) => (image.id === activeId ? { ...image, history } : image)),
+    [activeId, history]
+  )
+
+  const select = React.useCallback(
+    (id: string) => {
+      if (id === activeId) return
+      const target = images.find((image) => image.id === id)
+      if (!target) return
+      setImages(stashActive)
+      load(target.history)
+      setActiveId(id)
+    },
+    [activeId, images, load, stashActive]
+  )
+
+  // New images start from the settings of the image being edited, so a look carries over
+  const add = React.useCallback(
+    (file: File, effects?: AppliedEffects) => {
+      const image = createWorkingImage(file, effects ?? editor.effects)
+      setImages((current) => [...stashActive(current), image])
+      load(image.history)
+      setActiveId(image.id)
+      // Swap the full-size thumbnail for a small copy once it is ready
+      createThumbnailUrl(file).then(
+        (url) => {
+          if (!imagesRef.current.some((candidate) => candidate.id === image.id)) {
+            URL.revokeObjectURL(url)
+            return
+          }
+          setImages((current) => current.map((candidate) => (candidate.id === image.id ? { ...candidate, thumbnailUrl: url } : candidate)))
+          URL.revokeObjectURL(image.thumbnailUrl)
+        },
+        (error) => console.warn("Could not create a thumbnail:", error)
+      )
+      return image
+    },
+    [editor.effects, load, stashActive]
+  )
+
+  const remove = React.useCallback(
+    (id: string) => {
+      const image = images.find((candidate) => candidate.id === id)
+      if (!image) return
+      if (id === activeId) {
+        const next = neighbourAfterRemoval(images, id)
+        if (next) load(next.history)
+        setActiveId(next?.id ?? null)
+      }
+      releaseWorkingImage(image)
+      setImages((current) => current.filter((candidate) => candidate.id !== id))
+    },
+    [activeId, images, load]
+  )
+
+  const selectFrame = React.useCallback(
+    (frame: number) => {
+      setImages((current) => current.map((image) => (image.id === activeId ? { ...image, frame } : image)))
+    },
+    [activeId]
+  )
+
+  // Settings for a particular image, whichever one is active by now (e.g. from a toast action).
+  // Returns false when the image has since been removed.
+  const setImageEffects = React.useCallback(
+    (id: string, effects: AppliedEffects) => {
+      if (!imagesRef.current.some((image) => image.id === id)) return false
+      if (id === activeIdRef.current) {
+        setEffects(effects, { coalesce: false })
+      } else {
+        setImages((current) =>
+          current.map((image) => (image.id === id ? { ...image, history: commitEffects(image.history, effects, Date.now(), false) } : image))
+        )
+      }
+      return true
+    },
+    [setEffects]
+  )
+
+  const copySettings = React.useCallback(() => setCopiedEffects(editor.effects), [editor.effects])
+
+  const pasteSettings = React.useCallback(() => {
+    if (copiedEffects) setEffects(copiedEffects, { coalesce: false })
+  }, [copiedEffects, setEffects])
+
+  return {
+    ...editor,
+    images,
+    activeImage: images.find((image) => image.id === activeId) ?? null,
+    select,
+    add,
+    remove,
+    selectFrame,
+    setImageEffects,
+    copiedEffects,
+    copySettings,
+    pasteSettings,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Batch exports: the same effects applied to many images at full resolution, rendered in a
+ * worker where supported (main thread otherwise) and collected into one zip download.
+ */
+
+import type { AppliedEffects } from '@/types';
+import {
+  encodeArtwork,
+  exportExif,
+  renderArtworkForExport,
+  resolveBackgroundColor,
+  type ExportSettings,
+} from '@/lib/export';
+import { supportsWorkerRendering } from '@/lib/render/artwork-renderer';
+import type { BatchWorkerRequest, BatchWorkerResponse } from '@/lib/render/worker-protocol';
+import { createZip, uniqueEntryNames } from '@/lib/zip';
+import { readFileFormat } from '@/lib/image-format';
+import { IMAGE_DECODERS } from '@/lib/decoders';
+
+export type BatchItemStatus = 'queued' | 'rendering' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchItemStatus;
+  error?: string;
+  result?: { blob: Blob; filename: string; width: number; height: number };
+}
+
+export interface BatchExporter {
+  export(file: File, effects: AppliedEffects, settings: ExportSettings): Promise<{ blob: Blob; width: number; height: number }>;
+  dispose(): void;
+}
+
+export function createBatchExporter(): BatchExporter {
+  if (supportsWorkerRendering()) {
+    try {
+      return createWorkerExporter();
+    } catch (error) {
+      console.warn('Falling back to main-thread batch exports:', error);
+    }
+  }
+  return createMainThreadExporter();
+}
+
+function createMainThreadExporter(): BatchExporter {
+  return {
+    async export(file, effects, settings) {
+      const canvas = await renderArtworkForExport(file, effects, settings.scale);
+      const blob = await encodeArtwork(canvas, effects, settings, resolveBackgroundColor(settings), await exportExif(file, settings, canvas));
+      return { blob, width: canvas.width, height: canvas.height };
+    },
+    dispose() {},
+  };
+}
+
+function createWorkerExporter(): BatchExporter {
+  const mainThread = createMainThreadExporter();
+  const worker = new Worker(new URL('./render/batch.worker.ts', import.meta.url), { type: 'module' });
+  const jobs = new Map<number, { run: () => ReturnType<BatchExporter['export']>; resolve: (result: { blob: Blob; width: number; height: number }) => void; reject: (error: Error) => void }>();
+  let jobId = 0;
+  // Set once the worker fails to load or crashes; the rest of the batch runs on the main thread
+  let failed = false;
+
+  worker.onmessage = (event: MessageEvent<BatchWorkerResponse>) => {
+    const message = event.data;
+    const job = jobs.get(message.jobId);
+    if (!job) return;
+    jobs.delete(message.jobId);
+    if (message.type === 'exported') job.resolve({ blob: message.blob, width: message.width, height: message.height });
+    else job.reject(new Error(message.message));
+  };
+
+  worker.onerror = (event) => {
+    console.warn('Batch worker failed, falling back to main-thread exports:', event.message);
+    failed = true;
+    worker.terminate();
+    jobs.forEach((job) => job.run().then(job.resolve, job.reject));
+    jobs.clear();
+  };
+
+  return {
+    async export(file, effects, settings) {
+      // Formats whose decoder needs the document (SVG) are rendered on the main thread
+      const format = await readFileFormat(file);
+      if (failed || (format && IMAGE_DECODERS[format]?.usesDom)) return mainThread.export(file, effects, settings);
+      const id = ++jobId;
+      return new Promise((resolve, reject) => {
+        jobs.set(id, { run: () => mainThread.export(file, effects, settings), resolve, reject });
+        const request: BatchWorkerRequest = {
+          type: 'export',
+          jobId: id,
+          file,
+          effects,
+          settings: { format: settings.format, quality: settings.quality, scale: settings.scale, metadata: settings.metadata },
+          background: resolveBackgroundColor(settings),
+        };
+        worker.postMessage(request);
+      });
+    },
+    dispose() {
+      jobs.forEach((job) => job.reject(new Error('Batch was cancelled')));
+      jobs.clear();
+      worker.terminate();
+    },
+  };
+}
+
+export function createBatchItems(files: File[], firstId = 1): BatchItem[] {
+  return files.map((file, index) => ({ id: firstId + index, file, status: 'queued' }));
+}
+
+// Zip of every finished export; duplicate filenames are numbered
+export function createBatchZip(items: BatchItem[]): Promise<Blob> {
+  const done = items.filter((item) => item.result);
+  const names = uniqueEntryNames(done.map((item) => item.result!.filename));
+  return createZip(done.map((item, index) => ({ name: names[index], data: item.result!.blob })));
+}
+
+export function batchZipFilename(date = new Date()): string {
+  return `artifex_batch_${date.toISOString().slice(0, 10)}.zip`;
+}
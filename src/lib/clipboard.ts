@@ -0,0 +1,71 @@
+/**
+ * Images in and out of the system clipboard: pasted files, pasted HTML that embeds an
+ * image (e.g. copied from a web page or document), and rendered PNGs copied out.
+ */
+
+const PASTED_NAME = 'pasted-image';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+};
+
+// Clipboard images usually arrive as "image.png"; give them a name that says where they came from
+function pastedFile(blob: Blob, name?: string): File {
+  const extension = EXTENSIONS[blob.type] ?? 'png';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return new File([blob], name || `${PASTED_NAME}-${stamp}.${extension}`, { type: blob.type || 'image/png' });
+}
+
+// First <img> source in pasted HTML
+function imageSourceFromHtml(html: string): string | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.querySelector('img[src]')?.getAttribute('src') ?? null;
+}
+
+async function fetchImage(src: string): Promise<Blob | null> {
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? blob : null;
+  } catch {
+    // Remote images without CORS headers can't be read
+    return null;
+  }
+}
+
+/**
+ * The image in a paste event's data, or null when there is none. Files win over HTML;
+ * HTML images are read from data: URLs directly and from other URLs with fetch.
+ */
+export async function imageFromClipboard(data: DataTransfer): Promise<File | null> {
+  const file = Array.from(data.files).find((candidate) => candidate.type.startsWith('image/'));
+  if (file) return pastedFile(file, file.name !== 'image.png' ? file.name : undefined);
+
+  const html = data.getData('text/html');
+  const src = html ? imageSourceFromHtml(html) : null;
+  if (!src) return null;
+  const blob = await fetchImage(src);
+  return blob ? pastedFile(blob) : null;
+}
+
+export function supportsImageCopy(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.clipboard?.write && typeof ClipboardItem !== 'undefined';
+}
+
+/**
+ * Put a PNG on the clipboard. Takes a promise so the clipboard write starts inside the
+ * click that triggered it, which Safari requires, while the image is still rendering.
+ */
+export async function copyPngToClipboard(png: Promise<Blob>): Promise<void> {
+  // `png` may never be awaited when copying fails first; that failure is the one reported
+  png.catch(() => {});
+  if (!supportsImageCopy()) throw new Error('This browser cannot copy images to the clipboard');
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
@@ -0,0 +1,182 @@
+/**
+ * Decoding uploaded files into drawable images, turned upright according to their EXIF
+ * orientation so phone photos are never drawn sideways. Formats with a decoder of their own
+ * (see IMAGE_DECODERS) use it; the rest go through createImageBitmap where available,
+ * downscaling while decoding when only a smaller proxy is needed.
+ */
+
+import { readExif, type ExifOrientation } from '@/lib/metadata/exif';
+import { readFileFormat, readImageDimensions } from '@/lib/image-format';
+import { IMAGE_DECODERS } from '@/lib/decoders';
+
+export type DecodedImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface DecodeOptions {
+  maxDimension?: number; // Longest side of the result; larger images are scaled down to fit
+  frame?: number; // Animation frame or page of formats that have several
+}
+
+export function imageSize(image: DecodedImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+// Free a decoded image's pixels now rather than whenever it is garbage collected
+export function releaseImage(image: DecodedImage): void {
+  if (image instanceof HTMLImageElement) return;
+  if (image instanceof HTMLCanvasElement) {
+    // Zero-sized canvases give their backing store back immediately, notably in Safari
+    image.width = 0;
+    image.height = 0;
+    return;
+  }
+  image.close();
+}
+
+export function swapsAxes(orientation: ExifOrientation): boolean {
+  return orientation >= 5;
+}
+
+// Browsers with CSS image-orientation already apply EXIF orientation when decoding <img>
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+}
+
+// Transform mapping the stored pixels (width × height) onto the upright image
+function orientationTransform(orientation: ExifOrientation, width: number, height: number): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0]; // Mirrored
+    case 3: return [-1, 0, 0, -1, width, height]; // Rotated 180°
+    case 4: return [1, 0, 0, -1, 0, height]; // Flipped vertically
+    case 5: return [0, 1, 1, 0, 0, 0]; // Transposed
+    case 6: return [0, 1, -1, 0, height, 0]; // Rotated 90° clockwise
+    case 7: return [0, -1, -1, 0, height, width]; // Transversed
+    case 8: return [0, -1, 1, 0, 0, width]; // Rotated 90° anticlockwise
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+// Upright copy of stored pixels on a canvas
+export function applyOrientation(image: CanvasImageSource, width: number, height: number, orientation: ExifOrientation): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsAxes(orientation) ? height : width;
+  canvas.height = swapsAxes(orientation) ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.setTransform(...orientationTransform(orientation, width, height));
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
+
+function loadImageElement(file: Blob, name: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode ${name}`));
+    };
+    img.src = url;
+  });
+}
+
+function fitSize(width: number, height: number, maxDimension: number | undefined): { width: number; height: number } | null {
+  if (!maxDimension || Math.max(width, height) <= maxDimension) return null;
+  const scale = maxDimension / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// Smaller copy of `image` when it exceeds `maxDimension`; the original is released
+async function scaleToFit(image: DecodedImage, maxDimension: number | undefined): Promise<DecodedImage> {
+  const { width, height } = imageSize(image);
+  const size = fitSize(width, height, maxDimension);
+  if (!size) return image;
+  let scaled: DecodedImage;
+  if (typeof createImageBitmap !== 'undefined') {
+    scaled = await createImageBitmap(image, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: 'high' });
+  } else {
+    scaled = document.createElement('canvas');
+    scaled.width = size.width;
+    scaled.height = size.height;
+    const ctx = scaled.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, size.width, size.height);
+  }
+  releaseImage(image);
+  return scaled;
+}
+
+async function decodeBitmap(file: File, orientation: ExifOrientation, maxDimension: number | undefined): Promise<DecodedImage> {
+  // Resizing in the decoder means the full-size pixels never exist. Only done for upright
+  // files: browsers disagree on whether the resize is measured before or after rotation.
+  const stored = maxDimension && orientation === 1 ? await readImageDimensions(file) : null;
+  const size = stored && fitSize(stored.width, stored.height, maxDimension);
+  if (size) {
+    return createImageBitmap(file, {
+      imageOrientation: 'from-image',
+      resizeWidth: size.width,
+      resizeHeight: size.height,
+      resizeQuality: 'high',
+    });
+  }
+  return scaleToFit(await createImageBitmap(file, { imageOrientation: 'from-image' }), maxDimension);
+}
+
+async function decodeWithBrowser(file: File, maxDimension: number | undefined): Promise<DecodedImage> {
+  const orientation = (await readExif(file))?.orientation ?? 1;
+  if (typeof createImageBitmap !== 'undefined') {
+    try {
+      return await decodeBitmap(file, orientation, maxDimension);
+    } catch {
+      // Browsers predating the 'from-image' orientation option reject it; fall back to <img>
+    }
+  }
+  const image = await loadImageElement(file, file.name);
+  const upright = orientation === 1 || browserAppliesOrientation()
+    ? image
+    : applyOrientation(image, image.naturalWidth, image.naturalHeight, orientation);
+  return scaleToFit(upright, maxDimension);
+}
+
+// Decoder output as something drawable
+async function imageFromPixels(pixels: ImageData | HTMLCanvasElement): Promise<DecodedImage> {
+  if (!(pixels instanceof ImageData)) return pixels;
+  if (typeof createImageBitmap !== 'undefined') return createImageBitmap(pixels);
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+/**
+ * Decode `file` upright. Pass `maxDimension` for an interactive proxy; without it the image
+ * is decoded at full resolution, as exports need. Release the result with releaseImage.
+ */
+export async function decodeImageFile(file: File, options: DecodeOptions = {}): Promise<DecodedImage> {
+  const format = await readFileFormat(file);
+  const decoder = format ? IMAGE_DECODERS[format] : undefined;
+  if (decoder) return scaleToFit(await imageFromPixels(await decoder.decode(file, options)), options.maxDimension);
+  try {
+    return await decodeWithBrowser(file, options.maxDimension);
+  } catch (error) {
+    // AVIF support varies by browser; say so rather than blaming the file
+    if (format === 'avif') throw new Error(`This browser can't decode AVIF images like ${file.name}`);
+    throw error;
+  }
+}
+
+// Frames (animation frames or pages) in `file`; 1 for still formats
+export async function countImageFrames(file: File): Promise<number> {
+  const format = await readFileFormat(file);
+  const decoder = format ? IMAGE_DECODERS[format] : undefined;
+  return decoder ? decoder.frameCount(file) : 1;
+}
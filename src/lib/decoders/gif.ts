@@ -0,0 +1,247 @@
+/**
+ * GIF decoder in plain TypeScript that exposes every frame of an animation, composited the
+ * way browsers play it: frame offsets, transparency and disposal methods included.
+ */
+
+import type { ImageDecoder } from '@/lib/decoders';
+
+// How a frame is cleared before the next one is drawn
+const DISPOSE_BACKGROUND = 2; // Clear the frame's rectangle to transparent
+const DISPOSE_PREVIOUS = 3; // Restore what was there before the frame
+
+interface GifFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  palette: Uint8Array;
+  transparentIndex: number | null;
+  disposal: number;
+  minCodeSize: number;
+  data: Uint8Array; // LZW stream with the sub-block lengths removed
+}
+
+interface GifFile {
+  width: number;
+  height: number;
+  frames: GifFrame[];
+}
+
+// A run of length-prefixed sub-blocks ending with an empty one
+function readSubBlocks(bytes: Uint8Array, offset: number): { data: Uint8Array; next: number } {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  while (offset < bytes.length) {
+    const length = bytes[offset++];
+    if (length === 0) break;
+    parts.push(bytes.subarray(offset, offset + length));
+    size += length;
+    offset += length;
+  }
+  const data = new Uint8Array(size);
+  let position = 0;
+  for (const part of parts) {
+    data.set(part, position);
+    position += part.length;
+  }
+  return { data, next: offset };
+}
+
+function parseGif(bytes: Uint8Array): GifFile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const flags = bytes[10];
+  let offset = 13;
+  let globalPalette: Uint8Array = new Uint8Array(0);
+  if (flags & 0x80) {
+    const size = 3 << ((flags & 7) + 1);
+    globalPalette = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  const frames: GifFrame[] = [];
+  // Graphic control extension values apply to the next image only
+  let control = { transparentIndex: null as number | null, disposal: 0 };
+  while (offset < bytes.length) {
+    const block = bytes[offset++];
+    if (block === 0x3b) break; // Trailer
+    if (block === 0x21) {
+      const label = bytes[offset++];
+      if (label === 0xf9 && bytes[offset] >= 4) {
+        const packed = bytes[offset + 1];
+        control = {
+          disposal: (packed >> 2) & 7,
+          transparentIndex: packed & 1 ? bytes[offset + 4] : null,
+        };
+      }
+      offset = readSubBlocks(bytes, offset).next;
+    } else if (block === 0x2c) {
+      const packed = bytes[offset + 8];
+      const frame = {
+        left: view.getUint16(offset, true),
+        top: view.getUint16(offset + 2, true),
+        width: view.getUint16(offset + 4, true),
+        height: view.getUint16(offset + 6, true),
+        interlaced: (packed & 0x40) !== 0,
+      };
+      offset += 9;
+      let palette = globalPalette;
+      if (packed & 0x80) {
+        const size = 3 << ((packed & 7) + 1);
+        palette = bytes.subarray(offset, offset + size);
+        offset += size;
+      }
+      const minCodeSize = bytes[offset++];
+      const { data, next } = readSubBlocks(bytes, offset);
+      offset = next;
+      frames.push({ ...frame, ...control, palette, minCodeSize, data });
+      control = { transparentIndex: null, disposal: 0 };
+    } else {
+      break; // Damaged or trailing bytes; keep the frames read so far
+    }
+  }
+  if (frames.length === 0) throw new Error('The GIF file contains no images');
+  return { width, height, frames };
+}
+
+// GIF's LZW: LSB-first codes that start one bit wider than the minimum code size
+function decodeLzw(input: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  for (let i = 0; i < clearCode; i++) {
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize) {
+      if (position >= input.length) return output;
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+    if (previous === -1) {
+      if (code >= clearCode) break;
+      output[written++] = code;
+      previous = code;
+      continue;
+    }
+    if (code > nextCode) break; // Corrupt data
+    if (nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first[code < nextCode ? code : previous];
+      first[nextCode] = first[previous];
+      length[nextCode] = length[previous] + 1;
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    let entry = code;
+    const end = written + length[code];
+    for (let i = end - 1; i >= written; i--) {
+      if (i < pixelCount) output[i] = suffix[entry];
+      entry = prefix[entry];
+    }
+    written = end;
+    previous = code;
+  }
+  return output;
+}
+
+// Row order of an interlaced frame: every 8th from 0, every 8th from 4, every 4th from 2, every 2nd from 1
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let row = start; row < height; row += step) rows.push(row);
+  }
+  return rows;
+}
+
+function drawFrame(canvas: Uint8ClampedArray, gif: GifFile, frame: GifFrame): void {
+  const indices = decodeLzw(frame.data, frame.minCodeSize, frame.width * frame.height);
+  const rows = frame.interlaced ? interlacedRows(frame.height) : null;
+  for (let row = 0; row < frame.height; row++) {
+    const y = frame.top + (rows ? rows[row] : row);
+    if (y >= gif.height) continue;
+    for (let column = 0; column < frame.width; column++) {
+      const x = frame.left + column;
+      if (x >= gif.width) continue;
+      const index = indices[row * frame.width + column];
+      if (index === frame.transparentIndex || index * 3 + 2 >= frame.palette.length) continue;
+      const at = (y * gif.width + x) * 4;
+      canvas[at] = frame.palette[index * 3];
+      canvas[at + 1] = frame.palette[index * 3 + 1];
+      canvas[at + 2] = frame.palette[index * 3 + 2];
+      canvas[at + 3] = 255;
+    }
+  }
+}
+
+function clearRect(canvas: Uint8ClampedArray, gif: GifFile, frame: GifFrame): void {
+  for (let y = frame.top; y < Math.min(frame.top + frame.height, gif.height); y++) {
+    const start = (y * gif.width + frame.left) * 4;
+    canvas.fill(0, start, start + Math.min(frame.width, gif.width - frame.left) * 4);
+  }
+}
+
+// Frame `index` as seen during playback; every earlier frame is replayed to get there
+function compositeFrame(gif: GifFile, index: number): ImageData {
+  const image = new ImageData(gif.width, gif.height);
+  const canvas = image.data;
+  for (let i = 0; i <= index; i++) {
+    const frame = gif.frames[i];
+    const before = frame.disposal === DISPOSE_PREVIOUS && i < index ? canvas.slice() : null;
+    drawFrame(canvas, gif, frame);
+    if (i === index) break;
+    if (frame.disposal === DISPOSE_BACKGROUND) clearRect(canvas, gif, frame);
+    else if (before) canvas.set(before);
+  }
+  return image;
+}
+
+// Parsed files, so scrubbing through frames doesn't re-read the whole file
+const parsed = new WeakMap<Blob, Promise<GifFile>>();
+
+function loadGif(file: Blob): Promise<GifFile> {
+  let gif = parsed.get(file);
+  if (!gif) {
+    gif = file.arrayBuffer().then((buffer) => parseGif(new Uint8Array(buffer)));
+    parsed.set(file, gif);
+  }
+  return gif;
+}
+
+export const gifDecoder: ImageDecoder = {
+  usesDom: false,
+  async decode(file, { frame = 0 }) {
+    const gif = await loadGif(file);
+    return compositeFrame(gif, Math.min(frame, gif.frames.length - 1));
+  },
+  async frameCount(file) {
+    return (await loadGif(file)).frames.length;
+  },
+};
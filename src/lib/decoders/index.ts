@@ -0,0 +1,26 @@
+/**
+ * Decoders for formats the browser can't open by itself, or not completely. Each turns a file
+ * into upright pixels; formats without an entry here are left to the browser's decoder.
+ */
+
+import type { ImageFormat } from '@/lib/image-format';
+import { gifDecoder } from '@/lib/decoders/gif';
+import { svgDecoder } from '@/lib/decoders/svg';
+import { tiffDecoder } from '@/lib/decoders/tiff';
+
+export interface DecoderOptions {
+  frame?: number; // Animation frame or page, from 0; clamped to the last one
+  maxDimension?: number; // Target longest side for formats that can render at any size
+}
+
+export interface ImageDecoder {
+  usesDom: boolean; // Needs the document, so it can't run in a worker
+  decode(file: Blob, options: DecoderOptions): Promise<ImageData | HTMLCanvasElement>;
+  frameCount(file: Blob): Promise<number>;
+}
+
+export const IMAGE_DECODERS: Partial<Record<ImageFormat, ImageDecoder>> = {
+  gif: gifDecoder,
+  tiff: tiffDecoder,
+  svg: svgDecoder,
+};
@@ -0,0 +1,88 @@
+/**
+ * SVG rasterized by the browser at a chosen resolution rather than its intrinsic size, so
+ * vector artwork stays sharp however large it is exported.
+ */
+
+import type { ImageDecoder } from '@/lib/decoders';
+
+// Longest side when no smaller size is asked for, e.g. for full-resolution exports
+export const SVG_RASTER_SIZE = 4096;
+
+// What browsers assume for an SVG without width, height or viewBox
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+function attribute(tag: string, name: string): string | null {
+  return new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1] ?? null;
+}
+
+// Absolute lengths only; percentages and font-relative units fall back to the viewBox
+function pixelLength(value: string | null): number | null {
+  const match = value && /^\s*([\d.]+)\s*(px)?\s*$/i.exec(value);
+  const length = match ? parseFloat(match[1]) : NaN;
+  return length > 0 ? length : null;
+}
+
+// Intrinsic size from the root element's width and height, or the viewBox when they are missing
+export function readSvgSize(text: string): { width: number; height: number } {
+  const root = /<svg\b[^>]*>/i.exec(text)?.[0];
+  if (!root) return DEFAULT_SVG_SIZE;
+  const viewBox = attribute(root, 'viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const boxWidth = viewBox?.length === 4 && viewBox[2] > 0 ? viewBox[2] : null;
+  const boxHeight = viewBox?.length === 4 && viewBox[3] > 0 ? viewBox[3] : null;
+  let width = pixelLength(attribute(root, 'width'));
+  let height = pixelLength(attribute(root, 'height'));
+  // A single given side takes the other from the viewBox's aspect ratio
+  if (width && !height && boxWidth && boxHeight) height = (width * boxHeight) / boxWidth;
+  if (height && !width && boxWidth && boxHeight) width = (height * boxWidth) / boxHeight;
+  width ??= boxWidth;
+  height ??= boxHeight;
+  return width && height ? { width, height } : DEFAULT_SVG_SIZE;
+}
+
+function loadSvg(markup: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The SVG could not be rendered'));
+    };
+    img.src = url;
+  });
+}
+
+export const svgDecoder: ImageDecoder = {
+  usesDom: true,
+  async decode(file, { maxDimension }) {
+    const text = await file.text();
+    const document = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const svg = document.documentElement;
+    if (svg.nodeName.toLowerCase() !== 'svg' || document.querySelector('parsererror')) throw new Error('The SVG markup is not valid');
+
+    const intrinsic = readSvgSize(text);
+    const scale = (maxDimension ?? SVG_RASTER_SIZE) / Math.max(intrinsic.width, intrinsic.height);
+    const width = Math.max(1, Math.round(intrinsic.width * scale));
+    const height = Math.max(1, Math.round(intrinsic.height * scale));
+    // Sized on the root element so the browser renders the vectors at the target resolution
+    // instead of scaling a raster of the intrinsic size
+    if (!svg.hasAttribute('viewBox')) svg.setAttribute('viewBox', `0 0 ${intrinsic.width} ${intrinsic.height}`);
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    const img = await loadSvg(new XMLSerializer().serializeToString(document));
+
+    const canvas = window.document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvas;
+  },
+  async frameCount() {
+    return 1;
+  },
+};
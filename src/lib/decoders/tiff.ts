@@ -0,0 +1,451 @@
+/**
+ * Baseline TIFF decoder in plain TypeScript, for the scans browsers can't open. Reads strips
+ * or tiles stored uncompressed or with PackBits, LZW or Deflate, in 1-16 bit greyscale, RGB(A),
+ * palette or CMYK. Each page of a multi-page file is a frame.
+ */
+
+import type { ImageDecoder } from '@/lib/decoders';
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_ORIENTATION = 274;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+const TAG_SAMPLE_FORMAT = 339;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_CMYK = 5;
+
+// Colour channels per photometric interpretation; further samples are extra (alpha)
+const COLOR_CHANNELS: Record<number, number> = {
+  [PHOTOMETRIC_WHITE_IS_ZERO]: 1,
+  [PHOTOMETRIC_BLACK_IS_ZERO]: 1,
+  [PHOTOMETRIC_RGB]: 3,
+  [PHOTOMETRIC_PALETTE]: 1,
+  [PHOTOMETRIC_CMYK]: 4,
+};
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type Ifd = Map<number, number[]>;
+
+interface TiffFile {
+  bytes: Uint8Array;
+  view: DataView;
+  little: boolean;
+  pages: Ifd[];
+}
+
+function readHeader(bytes: Uint8Array): { view: DataView; little: boolean; firstIfd: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = String.fromCharCode(bytes[0], bytes[1]);
+  if ((order !== 'II' && order !== 'MM') || bytes.length < 8) throw new Error('Not a TIFF file');
+  const little = order === 'II';
+  const magic = view.getUint16(2, little);
+  if (magic === 43) throw new Error('BigTIFF files are not supported');
+  if (magic !== 42) throw new Error('Not a TIFF file');
+  return { view, little, firstIfd: view.getUint32(4, little) };
+}
+
+function readValue(view: DataView, offset: number, type: number, little: boolean): number {
+  switch (type) {
+    case 3: return view.getUint16(offset, little);
+    case 4: return view.getUint32(offset, little);
+    case 8: return view.getInt16(offset, little);
+    case 9: return view.getInt32(offset, little);
+    default: return view.getUint8(offset);
+  }
+}
+
+// Numeric fields of one directory and the offset of the next; other field types are skipped
+function readIfd(bytes: Uint8Array, view: DataView, little: boolean, offset: number): { ifd: Ifd; next: number } {
+  const ifd: Ifd = new Map();
+  if (offset + 2 > bytes.length) return { ifd, next: 0 };
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > bytes.length) return { ifd, next: 0 };
+    const type = view.getUint16(entry + 2, little);
+    if (![1, 3, 4, 8, 9].includes(type)) continue;
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] * valueCount;
+    const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (valueOffset + size > bytes.length) continue;
+    const values: number[] = [];
+    for (let j = 0; j < valueCount; j++) values.push(readValue(view, valueOffset + j * TYPE_SIZES[type], type, little));
+    ifd.set(view.getUint16(entry, little), values);
+  }
+  const nextOffset = offset + 2 + count * 12;
+  return { ifd, next: nextOffset + 4 <= bytes.length ? view.getUint32(nextOffset, little) : 0 };
+}
+
+function parseTiff(bytes: Uint8Array): TiffFile {
+  const { view, little, firstIfd } = readHeader(bytes);
+  const pages: Ifd[] = [];
+  const seen = new Set<number>();
+  // Guard against directory chains that loop back on themselves
+  for (let offset = firstIfd; offset && !seen.has(offset); ) {
+    seen.add(offset);
+    const { ifd, next } = readIfd(bytes, view, little, offset);
+    if (ifd.has(TAG_IMAGE_WIDTH)) pages.push(ifd);
+    offset = next;
+  }
+  if (pages.length === 0) throw new Error('The TIFF file contains no images');
+  return { bytes, view, little, pages };
+}
+
+// Size of the first page; null when its directory isn't within `bytes`
+export function readTiffDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  try {
+    const { view, little, firstIfd } = readHeader(bytes);
+    const { ifd } = readIfd(bytes, view, little, firstIfd);
+    const width = ifd.get(TAG_IMAGE_WIDTH)?.[0];
+    const height = ifd.get(TAG_IMAGE_LENGTH)?.[0];
+    return width && height ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
+
+function unpackBits(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let read = 0;
+  let written = 0;
+  while (read < input.length && written < expected) {
+    const header = (input[read++] << 24) >> 24; // Signed byte
+    if (header >= 0) {
+      const count = Math.min(header + 1, expected - written, input.length - read);
+      output.set(input.subarray(read, read + count), written);
+      read += count;
+      written += count;
+    } else if (header !== -128) {
+      const count = Math.min(1 - header, expected - written);
+      output.fill(input[read++], written, written + count);
+      written += count;
+    }
+  }
+  return output;
+}
+
+// TIFF's LZW: MSB-first codes of 9-12 bits that widen one code early
+function decodeLzw(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+  const CLEAR = 256;
+  const END = 257;
+  let codeSize = 9;
+  let nextCode = 258;
+  let previous = -1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < expected) {
+    while (bitCount < codeSize) {
+      if (position >= input.length) return output;
+      bitBuffer = ((bitBuffer << 8) | input[position++]) >>> 0;
+      bitCount += 8;
+    }
+    const code = (bitBuffer >>> (bitCount - codeSize)) & ((1 << codeSize) - 1);
+    bitCount -= codeSize;
+    bitBuffer &= (1 << bitCount) - 1;
+
+    if (code === CLEAR) {
+      codeSize = 9;
+      nextCode = 258;
+      previous = -1;
+      continue;
+    }
+    if (code === END) break;
+    if (previous === -1) {
+      if (code > 255) break;
+      output[written++] = code;
+      previous = code;
+      continue;
+    }
+    if (code > nextCode) break; // Corrupt data
+    if (nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first[code < nextCode ? code : previous];
+      first[nextCode] = first[previous];
+      length[nextCode] = length[previous] + 1;
+      nextCode++;
+      if (nextCode + 1 >= 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    let entry = code;
+    const end = written + length[code];
+    for (let i = end - 1; i >= written; i--) {
+      if (i < expected) output[i] = suffix[entry];
+      entry = prefix[entry];
+    }
+    written = end;
+    previous = code;
+  }
+  return output;
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') throw new Error('Deflate-compressed TIFF files are not supported in this browser');
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(input: Uint8Array, compression: number, expected: number): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_PACKBITS:
+      return unpackBits(input, expected);
+    case COMPRESSION_LZW:
+      return decodeLzw(input, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE:
+      return inflate(input);
+    default:
+      throw new Error(`TIFF compression ${compression} is not supported`);
+  }
+}
+
+// Undo horizontal differencing (predictor 2) in place, one row at a time
+function undoPredictor(data: Uint8Array, rowBytes: number, rows: number, samples: number, bits: number, little: boolean): void {
+  if (bits === 8) {
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = start + samples; i < start + rowBytes && i < data.length; i++) data[i] = (data[i] + data[i - samples]) & 0xff;
+    }
+  } else if (bits === 16) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = start + samples * 2; i + 1 < start + rowBytes && i + 1 < data.length; i += 2) {
+        view.setUint16(i, (view.getUint16(i, little) + view.getUint16(i - samples * 2, little)) & 0xffff, little);
+      }
+    }
+  } else {
+    throw new Error(`TIFF predictor with ${bits}-bit samples is not supported`);
+  }
+}
+
+// Sample `index` of a row as an integer in 0..2^bits-1
+function readSample(data: Uint8Array, rowStart: number, index: number, bits: number, little: boolean): number {
+  if (bits === 8) return data[rowStart + index] ?? 0;
+  if (bits === 16) {
+    const offset = rowStart + index * 2;
+    return little ? (data[offset] ?? 0) | ((data[offset + 1] ?? 0) << 8) : ((data[offset] ?? 0) << 8) | (data[offset + 1] ?? 0);
+  }
+  const bit = index * bits;
+  const byte = data[rowStart + (bit >> 3)] ?? 0;
+  return (byte >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+}
+
+/**
+ * Pixel remap for TIFF orientations 2-8, so pages come out upright like EXIF-rotated photos.
+ */
+function orientPixels(image: ImageData, orientation: number): ImageData {
+  if (orientation < 2 || orientation > 8) return image;
+  const { width, height, data } = image;
+  const swap = orientation >= 5;
+  const out = new ImageData(swap ? height : width, swap ? width : height);
+  const pixels = new Uint32Array(data.buffer);
+  const target = new Uint32Array(out.data.buffer);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx = x;
+      let ty = y;
+      switch (orientation) {
+        case 2: tx = width - 1 - x; break;
+        case 3: tx = width - 1 - x; ty = height - 1 - y; break;
+        case 4: ty = height - 1 - y; break;
+        case 5: tx = y; ty = x; break;
+        case 6: tx = height - 1 - y; ty = x; break;
+        case 7: tx = height - 1 - y; ty = width - 1 - x; break;
+        case 8: tx = y; ty = width - 1 - x; break;
+      }
+      target[ty * out.width + tx] = pixels[y * width + x];
+    }
+  }
+  return out;
+}
+
+async function decodePage(tiff: TiffFile, ifd: Ifd): Promise<ImageData> {
+  const { bytes, little } = tiff;
+  const get = (tag: number, fallback: number) => ifd.get(tag)?.[0] ?? fallback;
+  const width = get(TAG_IMAGE_WIDTH, 0);
+  const height = get(TAG_IMAGE_LENGTH, 0);
+  const compression = get(TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = get(TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO);
+  const samples = get(TAG_SAMPLES_PER_PIXEL, 1);
+  const bits = get(TAG_BITS_PER_SAMPLE, 1);
+  const planar = get(TAG_PLANAR_CONFIGURATION, 1) === 2;
+  const predictor = get(TAG_PREDICTOR, 1);
+  const colorChannels = COLOR_CHANNELS[photometric];
+  const hasAlpha = colorChannels !== undefined && samples > colorChannels;
+  const premultiplied = hasAlpha && ifd.get(TAG_EXTRA_SAMPLES)?.[0] === 1;
+
+  if (!width || !height) throw new Error('The TIFF image has no size');
+  if (colorChannels === undefined) throw new Error(`TIFF colour model ${photometric} is not supported`);
+  if (![1, 2, 4, 8, 16].includes(bits) || (ifd.get(TAG_BITS_PER_SAMPLE) ?? []).some((value) => value !== bits)) {
+    throw new Error(`TIFF images with ${bits}-bit samples are not supported`);
+  }
+  if (get(TAG_SAMPLE_FORMAT, 1) !== 1) throw new Error('Floating-point and signed TIFF samples are not supported');
+  if (predictor !== 1 && predictor !== 2) throw new Error(`TIFF predictor ${predictor} is not supported`);
+
+  const tiled = ifd.has(TAG_TILE_OFFSETS);
+  const offsets = ifd.get(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? [];
+  const byteCounts = ifd.get(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? [];
+  const chunkWidth = tiled ? get(TAG_TILE_WIDTH, width) : width;
+  const chunkHeight = tiled ? get(TAG_TILE_LENGTH, height) : Math.min(get(TAG_ROWS_PER_STRIP, height), height);
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const planes = planar ? samples : 1;
+  const samplesPerChunkPixel = planar ? 1 : samples;
+  const rowBytes = Math.ceil((chunkWidth * samplesPerChunkPixel * bits) / 8);
+  if (offsets.length < across * down * planes) throw new Error('The TIFF image data is incomplete');
+
+  const colorMap = ifd.get(TAG_COLOR_MAP);
+  if (photometric === PHOTOMETRIC_PALETTE && (!colorMap || colorMap.length < 3 << bits)) throw new Error('The TIFF palette is missing');
+  const maxValue = (1 << bits) - 1;
+  const scale = (value: number) => (bits === 16 ? value >> 8 : Math.round((value * 255) / maxValue));
+
+  const image = new ImageData(width, height);
+  const rgba = image.data;
+  rgba.fill(255);
+  // The K ink takes the alpha slot until CMYK is converted, so alpha waits in its own buffer
+  const cmykAlpha = photometric === PHOTOMETRIC_CMYK && samples > colorChannels ? new Uint8Array(width * height) : null;
+
+  // Writes sample `channel` of pixel `pixel`; CMYK is converted once all four inks are in
+  const writeSample = (pixel: number, channel: number, value: number) => {
+    const at = pixel * 4;
+    if (channel >= colorChannels) {
+      if (channel !== colorChannels) return;
+      if (cmykAlpha) cmykAlpha[pixel] = scale(value);
+      else rgba[at + 3] = scale(value);
+      return;
+    }
+    switch (photometric) {
+      case PHOTOMETRIC_PALETTE: {
+        const entries = 1 << bits;
+        rgba[at] = colorMap![value] >> 8;
+        rgba[at + 1] = colorMap![entries + value] >> 8;
+        rgba[at + 2] = colorMap![entries * 2 + value] >> 8;
+        break;
+      }
+      case PHOTOMETRIC_WHITE_IS_ZERO:
+      case PHOTOMETRIC_BLACK_IS_ZERO: {
+        const grey = photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - scale(value) : scale(value);
+        rgba[at] = grey;
+        rgba[at + 1] = grey;
+        rgba[at + 2] = grey;
+        break;
+      }
+      default:
+        rgba[at + channel] = scale(value);
+    }
+  };
+
+  for (let plane = 0; plane < planes; plane++) {
+    for (let chunkRow = 0; chunkRow < down; chunkRow++) {
+      for (let chunkColumn = 0; chunkColumn < across; chunkColumn++) {
+        const index = plane * across * down + chunkRow * across + chunkColumn;
+        const top = chunkRow * chunkHeight;
+        const left = chunkColumn * chunkWidth;
+        // Strips at the bottom may be short; tiles are always padded to full size
+        const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - top);
+        const expected = rowBytes * rows;
+        const start = offsets[index];
+        const compressed = bytes.subarray(start, start + (byteCounts[index] ?? expected));
+        const data = await decompress(compressed, compression, expected);
+        if (predictor === 2) undoPredictor(data, rowBytes, rows, samplesPerChunkPixel, bits, little);
+
+        for (let row = 0; row < rows && top + row < height; row++) {
+          const rowStart = row * rowBytes;
+          for (let column = 0; column < chunkWidth && left + column < width; column++) {
+            const pixel = (top + row) * width + left + column;
+            if (planar) {
+              writeSample(pixel, plane, readSample(data, rowStart, column, bits, little));
+            } else {
+              for (let channel = 0; channel < samples; channel++) {
+                writeSample(pixel, channel, readSample(data, rowStart, column * samples + channel, bits, little));
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (photometric === PHOTOMETRIC_CMYK) {
+    for (let at = 0; at < rgba.length; at += 4) {
+      const k = 255 - rgba[at + 3];
+      rgba[at] = ((255 - rgba[at]) * k) / 255;
+      rgba[at + 1] = ((255 - rgba[at + 1]) * k) / 255;
+      rgba[at + 2] = ((255 - rgba[at + 2]) * k) / 255;
+      rgba[at + 3] = cmykAlpha ? cmykAlpha[at / 4] : 255;
+    }
+  } else if (premultiplied) {
+    for (let at = 0; at < rgba.length; at += 4) {
+      const alpha = rgba[at + 3];
+      if (alpha === 0 || alpha === 255) continue;
+      rgba[at] = (rgba[at] * 255) / alpha;
+      rgba[at + 1] = (rgba[at + 1] * 255) / alpha;
+      rgba[at + 2] = (rgba[at + 2] * 255) / alpha;
+    }
+  }
+
+  return orientPixels(image, get(TAG_ORIENTATION, 1));
+}
+
+// Parsed files, so flipping between pages doesn't re-read the whole file
+const parsed = new WeakMap<Blob, Promise<TiffFile>>();
+
+function loadTiff(file: Blob): Promise<TiffFile> {
+  let tiff = parsed.get(file);
+  if (!tiff) {
+    tiff = file.arrayBuffer().then((buffer) => parseTiff(new Uint8Array(buffer)));
+    parsed.set(file, tiff);
+  }
+  return tiff;
+}
+
+export const tiffDecoder: ImageDecoder = {
+  usesDom: false,
+  async decode(file, { frame = 0 }) {
+    const tiff = await loadTiff(file);
+    return decodePage(tiff, tiff.pages[Math.min(frame, tiff.pages.length - 1)]);
+  },
+  async frameCount(file) {
+    return (await loadTiff(file)).pages.length;
+  },
+};
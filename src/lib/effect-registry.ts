@@ -0,0 +1,310 @@
+/**
+ * Declarative registry of every effect setting: label, group, control range, default,
+ * how the 0-100 style control value maps onto what the renderer uses, and display units.
+ * The settings panel, renderer, validation (zod), URL state and AI suggestions all read it.
+ */
+
+import { z } from 'zod';
+import type { AppliedEffects } from '@/types';
+import { mapRange } from '@/lib/render/math';
+import { PAPER_TEXTURES, PAPER_TEXTURE_LABELS } from '@/lib/render/textures';
+import { CUTOUT_MODES, CUTOUT_MODE_LABELS } from '@/lib/render/contour';
+import { PAPER_FILL_MODES, PAPER_FILL_MODE_LABELS, PAPER_STOCK_COLORS } from '@/lib/render/colors';
+import { PAPER_CORNERS, PAPER_CORNER_LABELS, SHADOW_TYPES, SHADOW_TYPE_LABELS } from '@/lib/render/shadow-types';
+
+export const PARAMETER_GROUPS = ['shape', 'paper', 'light', 'shadow', 'motion'] as const;
+export type ParameterGroup = typeof PARAMETER_GROUPS[number];
+
+export const PARAMETER_GROUP_LABELS: Record<ParameterGroup, string> = {
+  shape: 'Shape & edges',
+  paper: 'Paper',
+  light: 'Light',
+  shadow: 'Shadow',
+  motion: 'Motion',
+};
+
+// Settings still accepted from old saves but no longer edited; normalizeEffects folds them into the light
+type LegacyEffectKey = 'animShadowOffsetX' | 'animShadowOffsetY';
+export type EffectKey = Exclude<keyof AppliedEffects, LegacyEffectKey>;
+
+interface ParameterBase {
+  label: string;
+  group: ParameterGroup;
+  description?: string;
+  // Only shown in the panel when this returns true
+  visibleWhen?: (effects: AppliedEffects) => boolean;
+}
+
+export interface RangeParameter extends ParameterBase {
+  kind: 'range';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  units?: string; // Shown after the control value
+  // What the renderer receives for min..max (linear); omitted when it uses the value as is
+  output?: { min: number; max: number; units: string };
+}
+
+export interface ChoiceParameter extends ParameterBase {
+  kind: 'choice';
+  options: readonly string[];
+  optionLabels: Record<string, string>;
+  default: string;
+}
+
+export interface SetParameter extends ParameterBase {
+  kind: 'set';
+  options: readonly string[];
+  optionLabels: Record<string, string>;
+  default: readonly string[];
+}
+
+export interface ToggleParameter extends ParameterBase {
+  kind: 'toggle';
+  default: boolean;
+}
+
+export interface ColorParameter extends ParameterBase {
+  kind: 'color';
+  default: string; // #rrggbb
+  swatches?: Array<{ label: string; value: string }>;
+}
+
+export interface SeedParameter extends ParameterBase {
+  kind: 'seed';
+  default: number;
+}
+
+export type EffectParameter = RangeParameter | ChoiceParameter | SetParameter | ToggleParameter | ColorParameter | SeedParameter;
+
+// The parameter kinds that can describe a setting of type V
+type ParameterFor<V> = V extends number
+  ? RangeParameter | SeedParameter
+  : V extends boolean
+    ? ToggleParameter
+    : V extends readonly string[]
+      ? SetParameter
+      : ChoiceParameter | ColorParameter;
+
+// Settings controlled by a slider, i.e. the ones with a numeric mapping
+export type RangeEffectKey = {
+  [K in EffectKey]: AppliedEffects[K] extends number ? (K extends 'seed' ? never : K) : never;
+}[EffectKey];
+
+const percent = { min: 0, max: 100, step: 1 } as const;
+
+// In panel order within each group
+export const EFFECT_PARAMETERS: { [K in EffectKey]: ParameterFor<AppliedEffects[K]> } = {
+  animSize: {
+    kind: 'range', label: 'Size', group: 'shape', min: 10, max: 100, step: 1, default: 50,
+    output: { min: 0.2, max: 1, units: '× of the preview area' },
+  },
+  animEdgeThickness: {
+    kind: 'range', label: 'Edge thickness', group: 'shape', ...percent, default: 35,
+    output: { min: 0, max: 0.15, units: '× the content’s short side' },
+  },
+  animEdgeIntensity: {
+    // Slightly more intense tear by default
+    kind: 'range', label: 'Edge intensity', group: 'shape', ...percent, default: 60,
+    output: { min: 0, max: 0.8, units: '× the border thickness' },
+  },
+  animEdgeDetails: {
+    // More detail in the tear by default
+    kind: 'range', label: 'Edge details', group: 'shape', ...percent, default: 60,
+    output: { min: 6, max: 30, units: 'teeth per short side' },
+  },
+  animCutoutStyle: {
+    kind: 'range', label: 'Cutout style', group: 'shape', ...percent, default: 50,
+    description: 'Torn, deckled, pinking, perforated, scalloped, clean cut',
+  },
+  cutoutMode: {
+    kind: 'choice', label: 'Cutout', group: 'shape', options: CUTOUT_MODES, optionLabels: CUTOUT_MODE_LABELS, default: 'rectangle',
+    description: 'Around subject follows the outline of transparent PNGs',
+  },
+  paperTexture: {
+    kind: 'choice', label: 'Paper texture', group: 'paper', options: PAPER_TEXTURES, optionLabels: PAPER_TEXTURE_LABELS, default: 'cold-press',
+  },
+  animTextureStrength: {
+    kind: 'range', label: 'Texture strength', group: 'paper', ...percent, default: 30,
+    output: { min: 0, max: 1, units: 'opacity' },
+  },
+  paperColorAuto: {
+    kind: 'toggle', label: 'Match image colours', group: 'paper', default: false,
+    description: 'Tints the paper with the image’s dominant colour',
+  },
+  paperColor: {
+    kind: 'color', label: 'Paper colour', group: 'paper', default: '#fefefe', swatches: PAPER_STOCK_COLORS,
+    visibleWhen: (effects) => !effects.paperColorAuto,
+  },
+  paperFillMode: {
+    kind: 'choice', label: 'Paper fill', group: 'paper', options: PAPER_FILL_MODES, optionLabels: PAPER_FILL_MODE_LABELS, default: 'gradient',
+  },
+  lightAngle: {
+    // Light from the upper left, casting the shadow down and to the right
+    kind: 'range', label: 'Light angle', group: 'light', min: 0, max: 360, step: 1, default: 333, units: '°',
+  },
+  lightElevation: {
+    kind: 'range', label: 'Light elevation', group: 'light', ...percent, default: 53,
+    output: { min: 5, max: 90, units: '° above the page' },
+  },
+  lightIntensity: {
+    kind: 'range', label: 'Light intensity', group: 'light', ...percent, default: 50,
+    output: { min: 0, max: 2, units: '× contrast' },
+  },
+  shadowType: {
+    kind: 'choice', label: 'Shadow type', group: 'shadow', options: SHADOW_TYPES, optionLabels: SHADOW_TYPE_LABELS, default: 'flat',
+  },
+  animShadowBlur: {
+    // Default to a softer blur
+    kind: 'range', label: 'Shadow blur', group: 'shadow', ...percent, default: 60,
+    output: { min: 0, max: 30, units: 'px at 400 px' },
+  },
+  animShadowStrength: {
+    kind: 'range', label: 'Shadow strength', group: 'shadow', ...percent, default: 55,
+    output: { min: 0, max: 0.6, units: 'opacity' },
+  },
+  shadowColor: {
+    kind: 'color', label: 'Shadow colour', group: 'shadow', default: '#000000',
+  },
+  contactShadowSpread: {
+    kind: 'range', label: 'Contact spread', group: 'shadow', ...percent, default: 50,
+    output: { min: 0.2, max: 1.2, units: '× the drop shadow' },
+    visibleWhen: (effects) => effects.shadowType === 'contact',
+  },
+  liftedCorners: {
+    kind: 'set', label: 'Lifted corners', group: 'shadow', options: PAPER_CORNERS, optionLabels: PAPER_CORNER_LABELS, default: ['bottom-right'],
+    visibleWhen: (effects) => effects.shadowType === 'lifted-corner',
+  },
+  cornerLift: {
+    kind: 'range', label: 'Corner lift', group: 'shadow', ...percent, default: 50,
+    output: { min: 0, max: 30, units: 'px at 400 px' },
+    visibleWhen: (effects) => effects.shadowType === 'lifted-corner',
+  },
+  pageBow: {
+    kind: 'range', label: 'Page bow', group: 'shadow', ...percent, default: 40,
+    output: { min: 0, max: 30, units: 'px at 400 px' },
+    visibleWhen: (effects) => effects.shadowType === 'page-bow',
+  },
+  animMovement: {
+    // No movement by default to better see static effects
+    kind: 'range', label: 'Movement', group: 'motion', ...percent, default: 0,
+    output: { min: 0, max: 8, units: 'px float' },
+  },
+  seed: {
+    kind: 'seed', label: 'Seed', group: 'shape', default: 1,
+    description: 'Tear geometry and grain; the same seed reproduces a look exactly',
+  },
+};
+
+export const EFFECT_KEYS = Object.keys(EFFECT_PARAMETERS) as EffectKey[];
+
+const LEGACY_LABELS: Record<LegacyEffectKey, string> = {
+  animShadowOffsetX: 'Shadow offset X',
+  animShadowOffsetY: 'Shadow offset Y',
+};
+
+export function getParameter(key: EffectKey): EffectParameter {
+  return EFFECT_PARAMETERS[key];
+}
+
+export function effectLabel(key: keyof AppliedEffects): string {
+  return key in EFFECT_PARAMETERS ? EFFECT_PARAMETERS[key as EffectKey].label : LEGACY_LABELS[key as LegacyEffectKey];
+}
+
+// Settings in `group`, in panel order
+export function parametersInGroup(group: ParameterGroup): EffectKey[] {
+  return EFFECT_KEYS.filter((key) => EFFECT_PARAMETERS[key].group === group);
+}
+
+export function defaultEffects(): AppliedEffects {
+  const effects: Record<string, unknown> = {};
+  EFFECT_KEYS.forEach((key) => {
+    const { default: value } = EFFECT_PARAMETERS[key];
+    effects[key] = Array.isArray(value) ? [...value] : value;
+  });
+  return effects as unknown as AppliedEffects;
+}
+
+// The value the renderer works with for a slider setting
+export function mapEffect(effects: AppliedEffects, key: RangeEffectKey): number {
+  const parameter = EFFECT_PARAMETERS[key] as RangeParameter;
+  const { min, max } = parameter.output ?? parameter;
+  return mapRange(effects[key], parameter.min, parameter.max, min, max);
+}
+
+// Value for lists and history entries, using option labels and units
+export function formatEffectValue(key: keyof AppliedEffects, value: AppliedEffects[keyof AppliedEffects]): string {
+  if (value === undefined) return '—';
+  const parameter = key in EFFECT_PARAMETERS ? getParameter(key as EffectKey) : null;
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (Array.isArray(value)) {
+    const labels = parameter?.kind === 'set' ? value.map((option) => parameter.optionLabels[option] ?? option) : value;
+    return labels.length ? labels.join(', ') : 'none';
+  }
+  if (parameter?.kind === 'choice') return parameter.optionLabels[value as string] ?? String(value);
+  if (parameter?.kind === 'range' && parameter.units) return `${value}${parameter.units}`;
+  return String(value);
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function parameterSchema(parameter: EffectParameter): z.ZodTypeAny {
+  switch (parameter.kind) {
+    case 'range':
+      return z.number().finite().min(parameter.min).max(parameter.max);
+    case 'seed':
+      return z.number().int().min(0).max(0xffffffff);
+    case 'choice':
+      return z.enum(parameter.options as [string, ...string[]]);
+    case 'set':
+      return z.array(z.enum(parameter.options as [string, ...string[]])).max(parameter.options.length);
+    case 'toggle':
+      return z.boolean();
+    case 'color':
+      return z.string().regex(HEX_COLOR, 'must be a #rrggbb colour');
+  }
+}
+
+const legacySchema = {
+  animShadowOffsetX: z.number().finite().min(0).max(100).optional(),
+  animShadowOffsetY: z.number().finite().min(0).max(100).optional(),
+};
+
+// Complete, valid settings
+export const effectsSchema = z.object({
+  ...Object.fromEntries(EFFECT_KEYS.map((key) => [key, parameterSchema(EFFECT_PARAMETERS[key])])),
+  ...legacySchema,
+});
+
+// Any subset of valid settings, e.g. a preset or URL that only changes a few
+export const effectsPatchSchema = effectsSchema.partial();
+
+/**
+ * Keep only the valid settings in untrusted input: out-of-range numbers are clamped,
+ * colours lower-cased, unknown options and keys dropped. Used by normalizeEffects.
+ */
+export function sanitizeEffects(input: Record<string, unknown>): Partial<AppliedEffects> {
+  const result: Record<string, unknown> = {};
+  (Object.keys(legacySchema) as LegacyEffectKey[]).forEach((key) => {
+    const parsed = legacySchema[key].safeParse(input[key]);
+    if (parsed.success && parsed.data !== undefined) result[key] = parsed.data;
+  });
+  EFFECT_KEYS.forEach((key) => {
+    const parameter = EFFECT_PARAMETERS[key];
+    const value = input[key];
+    if (value === undefined) return;
+    if (parameter.kind === 'range' && typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = Math.max(parameter.min, Math.min(parameter.max, value));
+    } else if (parameter.kind === 'seed' && typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = Math.floor(Math.abs(value)) >>> 0;
+    } else if (parameter.kind === 'set' && Array.isArray(value)) {
+      result[key] = parameter.options.filter((option) => value.includes(option));
+    } else if (parameter.kind === 'color' && typeof value === 'string' && HEX_COLOR.test(value)) {
+      result[key] = value.toLowerCase();
+    } else if (parameterSchema(parameter).safeParse(value).success) {
+      result[key] = value;
+    }
+  });
+  return result as Partial<AppliedEffects>;
+}
@@ -0,0 +1,20 @@
+import type { AppliedEffects } from '@/types';
+import { initialEffects } from '@/types';
+import { lightFromShadowOffsets } from '@/lib/render/light';
+import { sanitizeEffects } from '@/lib/effect-registry';
+
+/**
+ * Bring effects from older saves up to date: fill settings added since with their defaults
+ * and fold the legacy shadow offset sliders into the equivalent light angle and elevation.
+ * Invalid values are clamped to their range or replaced by the default.
+ */
+export function normalizeEffects(input: Partial<AppliedEffects> | Record<string, unknown>): AppliedEffects {
+  const { animShadowOffsetX, animShadowOffsetY, ...rest } = sanitizeEffects(input);
+  const effects: AppliedEffects = { ...initialEffects, ...rest };
+
+  const hasLegacyOffsets = animShadowOffsetX !== undefined || animShadowOffsetY !== undefined;
+  if (hasLegacyOffsets && input.lightAngle === undefined && input.lightElevation === undefined) {
+    Object.assign(effects, lightFromShadowOffsets(animShadowOffsetX ?? 50, animShadowOffsetY ?? 50));
+  }
+  return effects;
+}
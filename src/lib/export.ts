@@ -0,0 +1,248 @@
+import type { AppliedEffects } from '@/types';
+import { layoutArtwork, renderArtwork, type ArtworkLayout } from '@/lib/render/render-artwork';
+import { getLayerContext, type LayerCanvas } from '@/lib/render/layers';
+import { decodeImageFile, imageSize, releaseImage, type DecodedImage } from '@/lib/decode';
+import { embedArtworkSettings } from '@/lib/metadata/artwork-settings';
+import { buildExif, readExif, setImageExif, uprightExif } from '@/lib/metadata/exif';
+import { MAX_JPEG_EXIF_SIZE } from '@/lib/metadata/jpeg';
+import { DEFAULT_UPLOAD_LIMITS } from '@/lib/upload-validation';
+
+// Scale multipliers offered for export, relative to the source image's native resolution
+export const EXPORT_SCALES = [0.25, 0.5, 1, 1.5, 2, 3, 4] as const;
+export type ExportScale = typeof EXPORT_SCALES[number];
+
+export const EXPORT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+const EXPORT_FORMAT_TYPES: Record<ExportFormat, { mime: string; extension: string }> = {
+  png: { mime: 'image/png', extension: 'png' },
+  jpeg: { mime: 'image/jpeg', extension: 'jpg' },
+  webp: { mime: 'image/webp', extension: 'webp' },
+};
+
+export const EXPORT_BACKGROUNDS = ['transparent', 'color', 'theme'] as const;
+export type ExportBackground = typeof EXPORT_BACKGROUNDS[number];
+
+export const EXPORT_BACKGROUND_LABELS: Record<ExportBackground, string> = {
+  transparent: 'Transparent',
+  color: 'Solid colour',
+  theme: 'Theme background',
+};
+
+// What happens to the source image's EXIF metadata (camera, GPS location, credits) on export
+export const EXPORT_METADATA_MODES = ['strip', 'credits', 'original'] as const;
+export type ExportMetadata = typeof EXPORT_METADATA_MODES[number];
+
+export const EXPORT_METADATA_LABELS: Record<ExportMetadata, string> = {
+  strip: 'Strip all',
+  credits: 'Keep author & copyright',
+  original: 'Keep original',
+};
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1-100, JPEG and WebP only
+  background: ExportBackground;
+  backgroundColor: string; // Hex colour used when background is 'color'
+  scale: ExportScale;
+  filenameTemplate: string; // Supports {name}, {preset} and {date}; the extension is added for the format
+  metadata: ExportMetadata;
+}
+
+export const initialExportSettings: ExportSettings = {
+  format: 'png',
+  quality: 92,
+  background: 'transparent',
+  backgroundColor: '#ffffff',
+  scale: 1,
+  filenameTemplate: 'artifex_{name}',
+  metadata: 'strip', // Never leak a photo's location unless asked to
+};
+
+// Preset name used for {preset} when the settings were not loaded from a preset
+export const CUSTOM_PRESET_NAME = 'custom';
+
+export interface ExportedArtwork {
+  blob: Blob;
+  filename: string;
+  width: number;
+  height: number;
+}
+
+// Re-run the render on a detached canvas at the source's native resolution times `scale`.
+// The full-resolution decode only lives for the length of the render.
+export async function renderArtworkForExport(file: File, effects: AppliedEffects, scale: number, frame = 0): Promise<HTMLCanvasElement> {
+  const image = await decodeImageFile(file, { frame });
+  try {
+    return renderImageToCanvas(image, effects, scale);
+  } finally {
+    releaseImage(image);
+  }
+}
+
+// Layout of a `width`×`height` source exported at `scale`, reduced where needed to stay within
+// the canvas limits uploads are held to, so a large source at 4× still renders
+export function exportLayout(width: number, height: number, effects: AppliedEffects, scale: number): ArtworkLayout {
+  const layout = layoutArtwork(width * scale, height * scale, effects);
+  const { maxDimension, maxPixels } = DEFAULT_UPLOAD_LIMITS;
+  const fit = Math.min(1, maxDimension / Math.max(layout.width, layout.height), Math.sqrt(maxPixels / (layout.width * layout.height)));
+  return fit < 1 ? layoutArtwork(width * scale * fit, height * scale * fit, effects) : layout;
+}
+
+export function renderImageToCanvas(image: DecodedImage, effects: AppliedEffects, scale: number): HTMLCanvasElement {
+  const { width, height } = imageSize(image);
+  const layout = exportLayout(width, height, effects, scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(layout.width);
+  canvas.height = Math.round(layout.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  renderArtwork(image, effects, ctx, { width: canvas.width, height: canvas.height });
+  return canvas;
+}
+
+// Formats without an alpha channel can't be transparent
+export function supportsTransparency(format: ExportFormat): boolean {
+  return format !== 'jpeg';
+}
+
+// The page's --background custom property (an HSL triple) as a canvas colour
+export function themeBackgroundColor(): string {
+  const value = getComputedStyle(document.documentElement).getPropertyValue('--background').trim();
+  if (!value) return '#ffffff';
+  return `hsl(${value.split(/\s+/).join(', ')})`;
+}
+
+// Colour to fill behind the artwork, or null to keep it transparent. Needs the DOM for the theme colour.
+export function resolveBackgroundColor(settings: ExportSettings): string | null {
+  switch (settings.background) {
+    case 'color':
+      return settings.backgroundColor;
+    case 'theme':
+      return themeBackgroundColor();
+    default:
+      // JPEG would otherwise turn the transparent surround black
+      return supportsTransparency(settings.format) ? null : '#ffffff';
+  }
+}
+
+function fillBackground(canvas: LayerCanvas, color: string): void {
+  const ctx = getLayerContext(canvas);
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+}
+
+// Characters that are not allowed in filenames on common platforms
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|\u0000-\u001f]+/g;
+
+/**
+ * Expand the filename template: {name} is the upload's name without its extension,
+ * {preset} the applied preset and {date} today's date as YYYY-MM-DD.
+ */
+export function formatExportFilename(template: string, tokens: { name: string; preset: string; date?: Date }, format: ExportFormat): string {
+  const date = tokens.date ?? new Date();
+  const values: Record<string, string> = {
+    name: tokens.name.replace(/\.[^.]+$/, ''),
+    preset: tokens.preset,
+    date: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`,
+  };
+  const base = template
+    .replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+    .replace(UNSAFE_FILENAME_CHARS, '_')
+    .trim();
+  return `${base || 'artifex'}.${EXPORT_FORMAT_TYPES[format].extension}`;
+}
+
+// EXIF block to write into an export of `size` pixels for the chosen metadata mode, or null for none
+export async function exportExif(
+  source: Blob,
+  settings: Pick<ExportSettings, 'format' | 'metadata'>,
+  size: { width: number; height: number }
+): Promise<Uint8Array | null> {
+  if (settings.metadata === 'strip') return null;
+  const exif = await readExif(source);
+  if (!exif) return null;
+  const credits = buildExif({ artist: exif.artist, copyright: exif.copyright });
+  if (settings.metadata === 'credits') return credits;
+  // The pixels were turned upright on import, so the original orientation no longer applies
+  const original = uprightExif(exif.tiff, size);
+  // JPEG holds EXIF in a single 64 KB segment; larger blocks (e.g. from PNG or WebP) keep only the credits
+  return settings.format === 'jpeg' && original && original.length > MAX_JPEG_EXIF_SIZE ? credits : original;
+}
+
+/**
+ * Fill the background and encode a rendered artwork, embedding `exif` and the effects for
+ * re-editing. `background` comes from resolveBackgroundColor; works on OffscreenCanvas, so also in workers.
+ */
+export async function encodeArtwork(
+  canvas: LayerCanvas,
+  effects: AppliedEffects,
+  settings: Pick<ExportSettings, 'format' | 'quality'>,
+  background: string | null,
+  exif: Uint8Array | null = null
+): Promise<Blob> {
+  if (background) fillBackground(canvas, background);
+
+  const { mime } = EXPORT_FORMAT_TYPES[settings.format];
+  const quality = settings.format === 'png' ? undefined : settings.quality / 100;
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: mime, quality })
+    : await canvasToBlob(canvas, mime, quality);
+  // Browsers that can't encode a type silently fall back to PNG
+  if (blob.type !== mime) throw new Error(`${EXPORT_FORMAT_LABELS[settings.format]} export is not supported by this browser`);
+  // Encoded canvases carry no metadata of their own, so stripping needs no work
+  const tagged = exif ? new Blob([setImageExif(new Uint8Array(await blob.arrayBuffer()), exif)], { type: mime }) : blob;
+  return embedArtworkSettings(tagged, effects);
+}
+
+// Render, fill the background and encode the artwork with the export settings, embedding the effects for re-editing
+// `frame` picks the animation frame or page of sources that have several
+export async function exportArtwork(
+  file: File,
+  effects: AppliedEffects,
+  settings: ExportSettings,
+  preset?: string | null,
+  frame = 0
+): Promise<ExportedArtwork> {
+  const canvas = await renderArtworkForExport(file, effects, settings.scale, frame);
+  return {
+    blob: await encodeArtwork(canvas, effects, settings, resolveBackgroundColor(settings), await exportExif(file, settings, canvas)),
+    filename: exportFilename(file.name, settings, preset),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+export function exportFilename(sourceName: string, settings: ExportSettings, preset?: string | null): string {
+  return formatExportFilename(settings.filenameTemplate, { name: sourceName, preset: preset ?? CUSTOM_PRESET_NAME }, settings.format);
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))),
+      type,
+      quality
+    );
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+/**
+ * Undo/redo history of effect settings. Each entry records the settings after a change
+ * and which settings changed, so the history can be listed as "Size 50 → 72".
+ */
+
+import type { AppliedEffects } from '@/types';
+
+type EffectKey = keyof AppliedEffects;
+
+export interface EffectChange {
+  key: EffectKey;
+  from: AppliedEffects[EffectKey];
+  to: AppliedEffects[EffectKey];
+}
+
+export interface HistoryEntry {
+  effects: AppliedEffects;
+  changes: EffectChange[]; // Empty for the starting point
+  time: number; // ms timestamp of the latest change merged into the entry
+}
+
+export interface EffectsHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown; entries after it can be redone
+}
+
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 100;
+// Changes to the same settings closer together than this (ms) form one entry, e.g. a slider drag
+export const COALESCE_WINDOW = 800;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffEffects(from: AppliedEffects, to: AppliedEffects): EffectChange[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)] as EffectKey[]);
+  return [...keys].filter((key) => !sameValue(from[key], to[key])).map((key) => ({ key, from: from[key], to: to[key] }));
+}
+
+export function createHistory(effects: AppliedEffects): EffectsHistory {
+  return { entries: [{ effects, changes: [], time: 0 }], index: 0 };
+}
+
+function sameKeys(a: EffectChange[], b: EffectChange[]): boolean {
+  return a.length === b.length && a.every((change, i) => change.key === b[i].key);
+}
+
+/**
+ * Record `next` as the current settings, discarding anything that could have been redone.
+ * With `coalesce`, a change to the same settings as the latest entry within COALESCE_WINDOW
+ * is folded into it, keeping the entry's original "from" values.
+ */
+export function commitEffects(history: EffectsHistory, next: AppliedEffects, time: number, coalesce = true): EffectsHistory {
+  const current = history.entries[history.index];
+  const changes = diffEffects(current.effects, next);
+  if (changes.length === 0) return history;
+
+  const entries = history.entries.slice(0, history.index + 1);
+  // Never merge into an entry the user has stepped back to
+  const atLatest = history.index === history.entries.length - 1;
+  const canMerge = coalesce && atLatest && history.index > 0 && time - current.time < COALESCE_WINDOW && sameKeys(current.changes, changes);
+  if (canMerge) {
+    const merged = diffEffects(entries[history.index - 1].effects, next);
+    entries.pop();
+    // A drag that ends where it started leaves nothing to undo
+    if (merged.length === 0) return { entries, index: entries.length - 1 };
+    entries.push({ effects: next, changes: merged, time });
+  } else {
+    entries.push({ effects: next, changes, time });
+  }
+
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  const kept = entries.slice(overflow);
+  // The oldest kept entry becomes the new starting point
+  if (overflow > 0) kept[0] = { ...kept[0], changes: [] };
+  return { entries: kept, index: kept.length - 1 };
+}
+
+export function moveHistory(history: EffectsHistory, index: number): EffectsHistory {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
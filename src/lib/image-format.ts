@@ -0,0 +1,145 @@
+/**
+ * Image formats recognised from a file's first bytes rather than its name or declared type,
+ * and their pixel dimensions read from the header without decoding.
+ */
+
+import { readTiffDimensions } from '@/lib/decoders/tiff';
+import { readSvgSize } from '@/lib/decoders/svg';
+
+export const IMAGE_FORMATS = ['png', 'jpeg', 'gif', 'webp', 'bmp', 'avif', 'tiff', 'svg'] as const;
+export type ImageFormat = typeof IMAGE_FORMATS[number];
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  gif: 'GIF',
+  webp: 'WebP',
+  bmp: 'BMP',
+  avif: 'AVIF',
+  tiff: 'TIFF',
+  svg: 'SVG',
+};
+
+export const IMAGE_FORMAT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+// Enough of the file to reach the dimensions in nearly every header; JPEGs with large
+// metadata segments and TIFFs with their directory at the end are read in full
+const HEADER_BYTES = 256 * 1024;
+
+// An <svg> root, optionally after an XML declaration, comments and a doctype
+const SVG_ROOT = /^\s*(<\?xml[^>]*>\s*)?((<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>]/i;
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function sniffFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length < 12) return null;
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 4, 4) === 'ftyp' && ['avif', 'avis'].includes(ascii(bytes, 8, 4))) return 'avif';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+  if (SVG_ROOT.test(new TextDecoder().decode(bytes.subarray(0, 4096)))) return 'svg';
+  return null;
+}
+
+function jpegDimensions(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function webpDimensions(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    return { width: (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1, height: (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1 };
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  return null;
+}
+
+// AVIF keeps the size in an 'ispe' (image spatial extents) box inside the metadata
+function avifDimensions(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  for (let offset = 12; offset + 16 <= bytes.length; offset++) {
+    if (bytes[offset] === 0x69 && ascii(bytes, offset, 4) === 'ispe') {
+      return { width: view.getUint32(offset + 8), height: view.getUint32(offset + 12) };
+    }
+  }
+  return null;
+}
+
+// Pixel size from the file header without decoding the image. SVGs report their intrinsic size.
+export function readDimensions(bytes: Uint8Array, format: ImageFormat): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (format) {
+    case 'png':
+      return bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+    case 'gif':
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    case 'bmp':
+      // Height is negative for top-down bitmaps
+      return bytes.length >= 26 ? { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) } : null;
+    case 'jpeg':
+      return jpegDimensions(bytes, view);
+    case 'webp':
+      return webpDimensions(bytes, view);
+    case 'avif':
+      return avifDimensions(bytes, view);
+    case 'tiff':
+      return readTiffDimensions(bytes);
+    case 'svg':
+      return readSvgSize(new TextDecoder().decode(bytes));
+  }
+}
+
+export async function readHeader(file: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+}
+
+export async function readFileFormat(file: Blob): Promise<ImageFormat | null> {
+  return sniffFormat(await readHeader(file));
+}
+
+// Dimensions from `head`, reading the whole file when the header alone isn't enough
+export async function dimensionsOf(file: Blob, head: Uint8Array, format: ImageFormat): Promise<{ width: number; height: number } | null> {
+  const dimensions = readDimensions(head, format);
+  if (dimensions || file.size <= head.length) return dimensions;
+  return readDimensions(new Uint8Array(await file.arrayBuffer()), format);
+}
+
+// Stored pixel size of an image file (before EXIF orientation), without decoding it
+export async function readImageDimensions(file: Blob): Promise<{ width: number; height: number } | null> {
+  const head = await readHeader(file);
+  const format = sniffFormat(head);
+  return format ? dimensionsOf(file, head, format) : null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Effect settings embedded in exported images so an export can be re-opened and re-edited:
+ * a PNG iTXt chunk, or an XMP packet for JPEG and WebP.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { normalizeEffects } from '@/lib/effects';
+import { APP_VERSION } from '@/lib/version';
+import { getPngText, isPng, setPngText } from '@/lib/metadata/png';
+import { getJpegXmp, isJpeg, setJpegXmp } from '@/lib/metadata/jpeg';
+import { getWebpXmp, isWebp, setWebpXmp } from '@/lib/metadata/webp';
+import { buildXmpPacket, readXmpProperty } from '@/lib/metadata/xmp';
+
+export interface ArtworkSettings {
+  effects: AppliedEffects;
+  seed: number;
+  appVersion: string;
+}
+
+// Bumped when the payload layout changes; older payloads are read through normalizeEffects
+const SETTINGS_FORMAT_VERSION = 1;
+const PNG_KEYWORD = 'artifex:settings';
+const XMP_PREFIX = 'artifex';
+const XMP_NAMESPACE = 'https://artifex.canvas/ns/settings/1.0/';
+const XMP_PROPERTY = 'settings';
+
+function serializeSettings(effects: AppliedEffects): string {
+  return JSON.stringify({ version: SETTINGS_FORMAT_VERSION, appVersion: APP_VERSION, seed: effects.seed, effects });
+}
+
+function parseSettings(text: string): ArtworkSettings | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object') return null;
+  const { effects, seed, appVersion } = payload as Record<string, unknown>;
+  if (!effects || typeof effects !== 'object') return null;
+  // The top-level seed goes through the same validation as the rest of the settings
+  const restored = normalizeEffects(typeof seed === 'number' ? { ...effects, seed } : (effects as Partial<AppliedEffects>));
+  return { effects: restored, seed: restored.seed, appVersion: typeof appVersion === 'string' ? appVersion : 'unknown' };
+}
+
+// Copy of an encoded image with the settings embedded; formats without a known container are returned as is
+export async function embedArtworkSettings(blob: Blob, effects: AppliedEffects): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const payload = serializeSettings(effects);
+  let tagged: Uint8Array;
+  if (isPng(bytes)) {
+    tagged = setPngText(bytes, PNG_KEYWORD, payload);
+  } else {
+    const packet = buildXmpPacket(XMP_PREFIX, XMP_NAMESPACE, { [XMP_PROPERTY]: payload });
+    if (isJpeg(bytes)) tagged = setJpegXmp(bytes, packet);
+    else if (isWebp(bytes)) tagged = setWebpXmp(bytes, packet);
+    else return blob;
+  }
+  return new Blob([tagged], { type: blob.type });
+}
+
+// Settings embedded by a previous export, or null when the file has none (or they can't be read)
+export async function readArtworkSettings(file: Blob): Promise<ArtworkSettings | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    if (isPng(bytes)) {
+      const text = getPngText(bytes, PNG_KEYWORD);
+      return text ? parseSettings(text) : null;
+    }
+    const packet = isJpeg(bytes) ? getJpegXmp(bytes) : isWebp(bytes) ? getWebpXmp(bytes) : null;
+    const text = packet ? readXmpProperty(packet, XMP_NAMESPACE, XMP_PROPERTY) : null;
+    return text ? parseSettings(text) : null;
+  } catch (error) {
+    // A damaged container just means there is nothing to restore
+    console.warn('Could not read embedded settings', error);
+    return null;
+  }
+}
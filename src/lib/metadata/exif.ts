@@ -0,0 +1,220 @@
+/**
+ * EXIF metadata: a TIFF-structured block of tags stored in JPEG (APP1), PNG (eXIf) and
+ * WebP (EXIF chunk). Reads orientation, credits, camera and GPS tags; builds blocks for exports.
+ */
+
+import { isPng, readPngChunks, setPngExif } from '@/lib/metadata/png';
+import { getJpegExif, isJpeg, setJpegExif } from '@/lib/metadata/jpeg';
+import { getWebpExif, isWebp, setWebpExif } from '@/lib/metadata/webp';
+
+// EXIF orientation 1-8: 1 is upright; 2-4 mirror or rotate by 180°; 5-8 also swap width and height
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface ExifData {
+  orientation: ExifOrientation;
+  artist?: string;
+  copyright?: string;
+  make?: string;
+  model?: string;
+  software?: string;
+  dateTimeOriginal?: string;
+  hasGps: boolean; // Location tags present; stripped unless the original metadata is kept
+  tiff: Uint8Array; // The block as stored in the file
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_SOFTWARE = 0x0131;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Some writers keep the JPEG "Exif\0\0" prefix in PNG and WebP chunks too
+const EXIF_PREFIX = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number; // Offset of the value within the block (inline values point into the entry)
+}
+
+function stripExifPrefix(bytes: Uint8Array): Uint8Array {
+  return EXIF_PREFIX.every((byte, i) => bytes[i] === byte) ? bytes.subarray(EXIF_PREFIX.length) : bytes;
+}
+
+function createReader(tiff: Uint8Array) {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if ((order !== 'II' && order !== 'MM') || tiff.length < 8) throw new Error('Not a TIFF block');
+  const little = order === 'II';
+  if (view.getUint16(2, little) !== 42) throw new Error('Not a TIFF block');
+  return { view, little, firstIfd: view.getUint32(4, little) };
+}
+
+function readIfd(tiff: Uint8Array, view: DataView, little: boolean, offset: number): IfdEntry[] {
+  if (offset < 8 || offset + 2 > tiff.length) return [];
+  const count = view.getUint16(offset, little);
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    if (entryOffset + 12 > tiff.length) break;
+    const type = view.getUint16(entryOffset + 2, little);
+    const valueCount = view.getUint32(entryOffset + 4, little);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    entries.push({
+      tag: view.getUint16(entryOffset, little),
+      type,
+      count: valueCount,
+      valueOffset: size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, little),
+    });
+  }
+  return entries;
+}
+
+function readAscii(tiff: Uint8Array, entry: IfdEntry | undefined): string | undefined {
+  if (!entry || entry.type !== TYPE_ASCII || entry.valueOffset + entry.count > tiff.length) return undefined;
+  const text = new TextDecoder().decode(tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count)).replace(/\0+$/, '').trim();
+  return text || undefined;
+}
+
+function readNumber(view: DataView, little: boolean, entry: IfdEntry | undefined): number | undefined {
+  if (!entry) return undefined;
+  if (entry.type === TYPE_SHORT) return view.getUint16(entry.valueOffset, little);
+  if (entry.type === TYPE_LONG) return view.getUint32(entry.valueOffset, little);
+  return undefined;
+}
+
+// Tags of a TIFF block; null when it is malformed
+export function parseExif(block: Uint8Array): ExifData | null {
+  const tiff = stripExifPrefix(block);
+  try {
+    const { view, little, firstIfd } = createReader(tiff);
+    const ifd0 = readIfd(tiff, view, little, firstIfd);
+    const find = (entries: IfdEntry[], tag: number) => entries.find((entry) => entry.tag === tag);
+    const exifIfdOffset = readNumber(view, little, find(ifd0, TAG_EXIF_IFD));
+    const exifIfd = exifIfdOffset ? readIfd(tiff, view, little, exifIfdOffset) : [];
+    const gpsIfdOffset = readNumber(view, little, find(ifd0, TAG_GPS_IFD));
+    const orientation = readNumber(view, little, find(ifd0, TAG_ORIENTATION)) ?? 1;
+
+    return {
+      orientation: (orientation >= 1 && orientation <= 8 ? orientation : 1) as ExifOrientation,
+      artist: readAscii(tiff, find(ifd0, TAG_ARTIST)),
+      copyright: readAscii(tiff, find(ifd0, TAG_COPYRIGHT)),
+      make: readAscii(tiff, find(ifd0, TAG_MAKE)),
+      model: readAscii(tiff, find(ifd0, TAG_MODEL)),
+      software: readAscii(tiff, find(ifd0, TAG_SOFTWARE)),
+      dateTimeOriginal: readAscii(tiff, find(exifIfd, TAG_DATE_TIME_ORIGINAL)),
+      hasGps: gpsIfdOffset ? readIfd(tiff, view, little, gpsIfdOffset).length > 0 : false,
+      tiff,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// The EXIF block of a JPEG, PNG or WebP file, if it has one
+export function findExifBlock(bytes: Uint8Array): Uint8Array | null {
+  try {
+    if (isJpeg(bytes)) return getJpegExif(bytes);
+    if (isPng(bytes)) return readPngChunks(bytes).find((chunk) => chunk.type === 'eXIf')?.data ?? null;
+    if (isWebp(bytes)) return getWebpExif(bytes);
+  } catch {
+    // Damaged containers simply have no readable metadata
+  }
+  return null;
+}
+
+export async function readExif(file: Blob): Promise<ExifData | null> {
+  // EXIF sits in the file header; JPEG APP1 segments are at most 64 KB
+  const head = new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer());
+  let block = findExifBlock(head);
+  // PNG and WebP may place their EXIF chunk after the image data
+  if (!block && !isJpeg(head) && file.size > head.length) block = findExifBlock(new Uint8Array(await file.arrayBuffer()));
+  return block ? parseExif(block) : null;
+}
+
+/**
+ * Copy of a TIFF block for pixels that have already been turned upright and are now `size`:
+ * orientation reset to 1, the pixel dimensions updated and the embedded thumbnail (IFD1)
+ * dropped, since it no longer matches the image.
+ */
+export function uprightExif(block: Uint8Array, size: { width: number; height: number }): Uint8Array | null {
+  const tiff = stripExifPrefix(block).slice();
+  try {
+    const { view, little, firstIfd } = createReader(tiff);
+    const entries = readIfd(tiff, view, little, firstIfd);
+    const orientation = entries.find((entry) => entry.tag === TAG_ORIENTATION && entry.type === TYPE_SHORT);
+    if (orientation) view.setUint16(orientation.valueOffset, 1, little);
+    const exifIfdOffset = readNumber(view, little, entries.find((entry) => entry.tag === TAG_EXIF_IFD));
+    for (const entry of exifIfdOffset ? readIfd(tiff, view, little, exifIfdOffset) : []) {
+      const value = entry.tag === TAG_PIXEL_X_DIMENSION ? size.width : entry.tag === TAG_PIXEL_Y_DIMENSION ? size.height : null;
+      if (value === null || entry.valueOffset + 4 > tiff.length) continue;
+      if (entry.type === TYPE_SHORT) view.setUint16(entry.valueOffset, Math.min(value, 0xffff), little);
+      else if (entry.type === TYPE_LONG) view.setUint32(entry.valueOffset, value, little);
+    }
+    const nextPointer = firstIfd + 2 + view.getUint16(firstIfd, little) * 12;
+    if (nextPointer + 4 <= tiff.length) view.setUint32(nextPointer, 0, little);
+    return tiff;
+  } catch {
+    return null;
+  }
+}
+
+// Minimal little-endian TIFF block with the given text tags in IFD0
+export function buildExif(tags: { artist?: string; copyright?: string; software?: string }): Uint8Array | null {
+  const encoder = new TextEncoder();
+  // IFD entries must be sorted by tag
+  const fields: Array<{ tag: number; value: Uint8Array }> = [];
+  if (tags.software) fields.push({ tag: TAG_SOFTWARE, value: encoder.encode(`${tags.software}\0`) });
+  if (tags.artist) fields.push({ tag: TAG_ARTIST, value: encoder.encode(`${tags.artist}\0`) });
+  if (tags.copyright) fields.push({ tag: TAG_COPYRIGHT, value: encoder.encode(`${tags.copyright}\0`) });
+  if (fields.length === 0) return null;
+
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const dataSize = fields.reduce((size, { value }) => size + (value.length > 4 ? value.length + (value.length & 1) : 0), 0);
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49], 0);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, fields.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  fields.forEach(({ tag, value }, i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, TYPE_ASCII, true);
+    view.setUint32(entry + 4, value.length, true);
+    if (value.length <= 4) {
+      tiff.set(value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      tiff.set(value, dataOffset);
+      // Values start on a word boundary
+      dataOffset += value.length + (value.length & 1);
+    }
+  });
+  // Next IFD offset stays 0: there is no thumbnail
+  return tiff;
+}
+
+// Copy of an encoded image with its EXIF block replaced, or removed when `tiff` is null
+export function setImageExif(bytes: Uint8Array, tiff: Uint8Array | null): Uint8Array {
+  if (isJpeg(bytes)) return setJpegExif(bytes, tiff);
+  if (isPng(bytes)) return setPngExif(bytes, tiff);
+  if (isWebp(bytes)) return setWebpExif(bytes, tiff);
+  return bytes;
+}
@@ -0,0 +1,125 @@
+/**
+ * JPEG marker segments: enough to read and replace the EXIF and XMP APP1 segments.
+ */
+
+export interface JpegSegment {
+  marker: number; // Second byte of the marker, e.g. 0xe1 for APP1
+  data: Uint8Array; // Payload without the marker and length
+}
+
+const SOI = 0xd8;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+// Segment lengths are 16-bit and include the two length bytes
+const MAX_SEGMENT_DATA = 0xffff - 2;
+
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_SIGNATURE = 'Exif\0\0';
+
+// Largest TIFF block that fits in the EXIF segment
+export const MAX_JPEG_EXIF_SIZE = MAX_SEGMENT_DATA - EXIF_SIGNATURE.length;
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === SOI && bytes[2] === 0xff;
+}
+
+/**
+ * Header segments up to the start of scan, plus the offset where the scan starts.
+ * Everything from `scanOffset` on (SOS, entropy-coded data, EOI) is kept as is.
+ */
+export function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; scanOffset: number } {
+  if (!isJpeg(bytes)) throw new Error('Not a JPEG file');
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG marker');
+    const marker = bytes[offset + 1];
+    // Fill bytes may pad between segments
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === SOS) return { segments, scanOffset: offset };
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2 || offset + 2 + length > bytes.length) throw new Error('Truncated JPEG segment');
+    segments.push({ marker, data: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no image data');
+}
+
+export function writeJpegSegments(segments: JpegSegment[], scan: Uint8Array): Uint8Array {
+  const size = segments.reduce((total, segment) => total + 4 + segment.data.length, 2 + scan.length);
+  const bytes = new Uint8Array(size);
+  bytes[0] = 0xff;
+  bytes[1] = SOI;
+  let offset = 2;
+  segments.forEach(({ marker, data }) => {
+    if (data.length > MAX_SEGMENT_DATA) throw new Error('JPEG segment is too large');
+    bytes[offset] = 0xff;
+    bytes[offset + 1] = marker;
+    bytes[offset + 2] = (data.length + 2) >> 8;
+    bytes[offset + 3] = (data.length + 2) & 0xff;
+    bytes.set(data, offset + 4);
+    offset += 4 + data.length;
+  });
+  bytes.set(scan, offset);
+  return bytes;
+}
+
+function startsWith(data: Uint8Array, signature: string): boolean {
+  if (data.length < signature.length) return false;
+  for (let i = 0; i < signature.length; i++) if (data[i] !== signature.charCodeAt(i)) return false;
+  return true;
+}
+
+function isXmpSegment({ marker, data }: JpegSegment): boolean {
+  return marker === APP1 && startsWith(data, XMP_SIGNATURE);
+}
+
+// Replace the XMP packet, placing it after the JFIF/EXIF header segments as readers expect
+export function setJpegXmp(bytes: Uint8Array, packet: string): Uint8Array {
+  const { segments, scanOffset } = readJpegSegments(bytes);
+  const kept = segments.filter((segment) => !isXmpSegment(segment));
+  const signature = new TextEncoder().encode(XMP_SIGNATURE);
+  const body = new TextEncoder().encode(packet);
+  const data = new Uint8Array(signature.length + body.length);
+  data.set(signature, 0);
+  data.set(body, signature.length);
+
+  let insertAt = 0;
+  while (insertAt < kept.length && (kept[insertAt].marker === APP0 || kept[insertAt].marker === APP1)) insertAt++;
+  kept.splice(insertAt, 0, { marker: APP1, data });
+  return writeJpegSegments(kept, bytes.subarray(scanOffset));
+}
+
+export function getJpegXmp(bytes: Uint8Array): string | null {
+  const segment = readJpegSegments(bytes).segments.find(isXmpSegment);
+  return segment ? new TextDecoder().decode(segment.data.subarray(XMP_SIGNATURE.length)) : null;
+}
+
+function isExifSegment({ marker, data }: JpegSegment): boolean {
+  return marker === APP1 && startsWith(data, EXIF_SIGNATURE);
+}
+
+// The TIFF block of the EXIF segment, without its signature
+export function getJpegExif(bytes: Uint8Array): Uint8Array | null {
+  const segment = readJpegSegments(bytes).segments.find(isExifSegment);
+  return segment ? segment.data.subarray(EXIF_SIGNATURE.length) : null;
+}
+
+// Replace the EXIF segment (removing it when `tiff` is null), placed right after any JFIF header
+export function setJpegExif(bytes: Uint8Array, tiff: Uint8Array | null): Uint8Array {
+  const { segments, scanOffset } = readJpegSegments(bytes);
+  const kept = segments.filter((segment) => !isExifSegment(segment));
+  if (tiff) {
+    const data = new Uint8Array(EXIF_SIGNATURE.length + tiff.length);
+    data.set(new TextEncoder().encode(EXIF_SIGNATURE), 0);
+    data.set(tiff, EXIF_SIGNATURE.length);
+    let insertAt = 0;
+    while (insertAt < kept.length && kept[insertAt].marker === APP0) insertAt++;
+    kept.splice(insertAt, 0, { marker: APP1, data });
+  }
+  return writeJpegSegments(kept, bytes.subarray(scanOffset));
+}
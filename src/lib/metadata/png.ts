@@ -0,0 +1,105 @@
+/**
+ * Minimal PNG chunk reader/writer, enough to add and read uncompressed iTXt text chunks
+ * and the eXIf chunk.
+ */
+
+import { crc32 } from '@/lib/crc32';
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+// Chunks in file order. Throws on a truncated file; CRCs are not verified.
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new Error(`Truncated PNG chunk ${type}`);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+export function writePngChunks(chunks: PngChunk[]): Uint8Array {
+  const size = chunks.reduce((total, chunk) => total + 12 + chunk.data.length, PNG_SIGNATURE.length);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  chunks.forEach(({ type, data }) => {
+    view.setUint32(offset, data.length);
+    for (let i = 0; i < 4; i++) bytes[offset + 4 + i] = type.charCodeAt(i);
+    bytes.set(data, offset + 8);
+    // The CRC covers the type and the data
+    view.setUint32(offset + 8 + data.length, crc32(bytes.subarray(offset + 4, offset + 8 + data.length)));
+    offset += 12 + data.length;
+  });
+  return bytes;
+}
+
+// Uncompressed iTXt: keyword, null, compression flag and method, empty language and translated keyword, UTF-8 text
+export function createITXtChunk(keyword: string, text: string): PngChunk {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword);
+  const body = encoder.encode(text);
+  const data = new Uint8Array(key.length + 5 + body.length);
+  data.set(key, 0);
+  // Bytes after the keyword stay zero: separator, no compression, method 0, empty language, empty translation
+  data.set(body, key.length + 5);
+  return { type: 'iTXt', data };
+}
+
+// Keyword and text of an iTXt chunk, or null for compressed or malformed chunks
+export function readITXtChunk({ type, data }: PngChunk): { keyword: string; text: string } | null {
+  if (type !== 'iTXt') return null;
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 1 || data[keywordEnd + 1] !== 0) return null;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return null;
+  const decoder = new TextDecoder();
+  return {
+    keyword: decoder.decode(data.subarray(0, keywordEnd)),
+    text: decoder.decode(data.subarray(translatedEnd + 1)),
+  };
+}
+
+// Replace any iTXt chunk with the same keyword, placing the new one just before IEND
+export function setPngText(bytes: Uint8Array, keyword: string, text: string): Uint8Array {
+  const chunks = readPngChunks(bytes).filter((chunk) => readITXtChunk(chunk)?.keyword !== keyword);
+  const end = chunks.findIndex((chunk) => chunk.type === 'IEND');
+  chunks.splice(end < 0 ? chunks.length : end, 0, createITXtChunk(keyword, text));
+  return writePngChunks(chunks);
+}
+
+export function getPngText(bytes: Uint8Array, keyword: string): string | null {
+  for (const chunk of readPngChunks(bytes)) {
+    const text = readITXtChunk(chunk);
+    if (text?.keyword === keyword) return text.text;
+  }
+  return null;
+}
+
+// Replace the eXIf chunk (removing it when `tiff` is null); it must come before the image data
+export function setPngExif(bytes: Uint8Array, tiff: Uint8Array | null): Uint8Array {
+  const chunks = readPngChunks(bytes).filter((chunk) => chunk.type !== 'eXIf');
+  if (tiff) {
+    const data = chunks.findIndex((chunk) => chunk.type === 'IDAT');
+    chunks.splice(data < 0 ? chunks.length - 1 : data, 0, { type: 'eXIf', data: tiff });
+  }
+  return writePngChunks(chunks);
+}
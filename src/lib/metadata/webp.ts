@@ -0,0 +1,124 @@
+/**
+ * WebP RIFF chunks: enough to read and replace the EXIF and XMP chunks, upgrading simple
+ * files to the extended (VP8X) layout that metadata requires.
+ */
+
+export interface WebpChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// VP8X feature flags
+const FLAG_XMP = 0x04;
+const FLAG_EXIF = 0x08;
+const FLAG_ALPHA = 0x10;
+
+export function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP';
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+export function readWebpChunks(bytes: Uint8Array): WebpChunk[] {
+  if (!isWebp(bytes)) throw new Error('Not a WebP file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WebpChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = view.getUint32(offset + 4, true);
+    if (offset + 8 + length > bytes.length) throw new Error(`Truncated WebP chunk ${type}`);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    // Chunks are padded to an even size
+    offset += 8 + length + (length & 1);
+  }
+  return chunks;
+}
+
+export function writeWebpChunks(chunks: WebpChunk[]): Uint8Array {
+  const size = chunks.reduce((total, chunk) => total + 8 + chunk.data.length + (chunk.data.length & 1), 12);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  const writeFourCC = (offset: number, value: string) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = value.charCodeAt(i);
+  };
+  writeFourCC(0, 'RIFF');
+  view.setUint32(4, size - 8, true);
+  writeFourCC(8, 'WEBP');
+  let offset = 12;
+  chunks.forEach(({ type, data }) => {
+    writeFourCC(offset, type);
+    view.setUint32(offset + 4, data.length, true);
+    bytes.set(data, offset + 8);
+    offset += 8 + data.length + (data.length & 1);
+  });
+  return bytes;
+}
+
+// Canvas size and alpha of a simple (VP8 or VP8L) file, read from its bitstream header
+function describeBitstream(chunk: WebpChunk): { width: number; height: number; alpha: boolean } {
+  const { type, data } = chunk;
+  if (type === 'VP8L' && data.length >= 5) {
+    const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  if (type === 'VP8 ' && data.length >= 10) {
+    return { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff, alpha: false };
+  }
+  throw new Error('Unsupported WebP bitstream');
+}
+
+function createVp8xChunk(flags: number, width: number, height: number): WebpChunk {
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  // Canvas width and height minus one, 24-bit little endian
+  [width - 1, height - 1].forEach((value, i) => {
+    data[4 + i * 3] = value & 0xff;
+    data[5 + i * 3] = (value >> 8) & 0xff;
+    data[6 + i * 3] = (value >> 16) & 0xff;
+  });
+  return { type: 'VP8X', data };
+}
+
+// Set or clear a VP8X feature flag, adding the VP8X header to simple files
+function setFeatureFlag(chunks: WebpChunk[], flag: number, enabled: boolean): void {
+  const header = chunks.find((chunk) => chunk.type === 'VP8X');
+  if (header) {
+    const data = header.data.slice();
+    data[0] = enabled ? data[0] | flag : data[0] & ~flag;
+    chunks[chunks.indexOf(header)] = { type: 'VP8X', data };
+  } else if (enabled) {
+    const { width, height, alpha } = describeBitstream(chunks[0]);
+    chunks.unshift(createVp8xChunk(flag | (alpha ? FLAG_ALPHA : 0), width, height));
+  }
+}
+
+export function setWebpXmp(bytes: Uint8Array, packet: string): Uint8Array {
+  const chunks = readWebpChunks(bytes).filter((chunk) => chunk.type !== 'XMP ');
+  setFeatureFlag(chunks, FLAG_XMP, true);
+  // Metadata chunks come after the image data
+  chunks.push({ type: 'XMP ', data: new TextEncoder().encode(packet) });
+  return writeWebpChunks(chunks);
+}
+
+// Replace the EXIF chunk (removing it when `tiff` is null); it goes after the image data, before XMP
+export function setWebpExif(bytes: Uint8Array, tiff: Uint8Array | null): Uint8Array {
+  const chunks = readWebpChunks(bytes).filter((chunk) => chunk.type !== 'EXIF');
+  setFeatureFlag(chunks, FLAG_EXIF, tiff !== null);
+  if (tiff) {
+    const xmp = chunks.findIndex((chunk) => chunk.type === 'XMP ');
+    chunks.splice(xmp < 0 ? chunks.length : xmp, 0, { type: 'EXIF', data: tiff });
+  }
+  return writeWebpChunks(chunks);
+}
+
+export function getWebpExif(bytes: Uint8Array): Uint8Array | null {
+  return readWebpChunks(bytes).find((chunk) => chunk.type === 'EXIF')?.data ?? null;
+}
+
+export function getWebpXmp(bytes: Uint8Array): string | null {
+  const chunk = readWebpChunks(bytes).find((candidate) => candidate.type === 'XMP ');
+  return chunk ? new TextDecoder().decode(chunk.data) : null;
+}
@@ -0,0 +1,59 @@
+/**
+ * XMP packets carrying plain string properties in a single namespace.
+ */
+
+const XMP_PACKET_ID = 'W5M0MpCehiHzreSzNTczkc9d';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\n/g, '&#10;');
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|quot|apos|lt|gt);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'lt': return '<';
+      case 'gt': return '>';
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+// XMP packet with `properties` as attributes of one rdf:Description under `prefix`/`namespace`
+export function buildXmpPacket(prefix: string, namespace: string, properties: Record<string, string>): string {
+  const attributes = Object.entries(properties)
+    .map(([name, value]) => `\n   ${prefix}:${name}="${escapeXml(value)}"`)
+    .join('');
+  return [
+    `<?xpacket begin="\uFEFF" id="${XMP_PACKET_ID}"?>`,
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `  <rdf:Description rdf:about="" xmlns:${prefix}="${namespace}"${attributes}/>`,
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/**
+ * Value of a property in `namespace`, written either as an attribute or as a simple
+ * element. The prefix is looked up from the packet, since other tools may rename it.
+ */
+export function readXmpProperty(packet: string, namespace: string, name: string): string | null {
+  const declaration = new RegExp(`xmlns:([\\w.-]+)="${namespace.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}"`).exec(packet);
+  if (!declaration) return null;
+  const qualified = `${declaration[1]}:${name}`;
+  const attribute = new RegExp(`${qualified}="([^"]*)"`).exec(packet);
+  if (attribute) return unescapeXml(attribute[1]);
+  const element = new RegExp(`<${qualified}>([^<]*)</${qualified}>`).exec(packet);
+  return element ? unescapeXml(element[1]) : null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Named effect presets: a built-in library plus the user's own, stored in localStorage
+ * and shareable as JSON preset packs.
+ */
+
+import { z } from 'zod';
+import type { AppliedEffects } from '@/types';
+import { initialEffects } from '@/types';
+import { normalizeEffects } from '@/lib/effects';
+import { effectsPatchSchema } from '@/lib/effect-registry';
+import { diffEffects } from '@/lib/history';
+import { APP_VERSION } from '@/lib/version';
+import { createId } from '@/lib/utils';
+
+export interface Preset {
+  id: string;
+  name: string;
+  effects: AppliedEffects;
+  builtIn?: boolean;
+}
+
+export const PRESETS_STORAGE_KEY = 'artifex.presets';
+export const PRESET_PACK_EXTENSION = '.json';
+
+const PRESET_PACK_FORMAT = 'artifex-presets';
+const PRESET_PACK_VERSION = 1;
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+function builtIn(id: string, name: string, overrides: Partial<AppliedEffects>): Preset {
+  return { id: `builtin:${id}`, name, effects: { ...initialEffects, ...overrides }, builtIn: true };
+}
+
+// Cutout style positions: hand-torn 0, deckled 20, pinking 40, perforated 60, scalloped 80, clean cut 100
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn('scrapbook', 'Scrapbook', {
+    animEdgeThickness: 45,
+    animEdgeIntensity: 70,
+    animEdgeDetails: 70,
+    animCutoutStyle: 0,
+    animTextureStrength: 45,
+    paperColor: '#f4ecd6',
+    shadowType: 'lifted-corner',
+    liftedCorners: ['bottom-right'],
+    cornerLift: 45,
+  }),
+  builtIn('ripped-poster', 'Ripped Poster', {
+    animEdgeThickness: 60,
+    animEdgeIntensity: 90,
+    animEdgeDetails: 85,
+    animCutoutStyle: 0,
+    animTextureStrength: 50,
+    paperTexture: 'newsprint',
+    animShadowStrength: 65,
+    shadowType: 'page-bow',
+    pageBow: 35,
+  }),
+  builtIn('clean-die-cut', 'Clean Die-cut', {
+    animEdgeThickness: 25,
+    animEdgeIntensity: 20,
+    animCutoutStyle: 100,
+    cutoutMode: 'subject',
+    animTextureStrength: 10,
+    paperColor: '#ffffff',
+    paperFillMode: 'solid',
+    shadowType: 'contact',
+    contactShadowSpread: 40,
+  }),
+  builtIn('vintage-note', 'Vintage Note', {
+    animEdgeThickness: 40,
+    animEdgeIntensity: 55,
+    animEdgeDetails: 45,
+    animCutoutStyle: 20,
+    animTextureStrength: 55,
+    paperTexture: 'laid',
+    paperColor: '#efe3c2',
+    lightElevation: 40,
+    animShadowStrength: 45,
+    shadowColor: '#3b2a1a',
+  }),
+];
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+  // Settings a pack leaves out take their defaults; unknown ones are dropped
+  effects: effectsPatchSchema,
+});
+
+const presetPackSchema = z.object({
+  format: z.literal(PRESET_PACK_FORMAT),
+  version: z.number().int().min(1).max(PRESET_PACK_VERSION),
+  presets: z.array(presetSchema).max(500),
+});
+
+export function createPreset(name: string, effects: AppliedEffects): Preset {
+  return { id: createId(), name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH), effects };
+}
+
+// The preset whose settings are exactly the current ones, if any
+export function findMatchingPreset(presets: Preset[], effects: AppliedEffects): Preset | null {
+  return presets.find((preset) => diffEffects(preset.effects, effects).length === 0) ?? null;
+}
+
+// User presets saved in this browser; damaged storage yields none rather than breaking the page
+export function loadStoredPresets(): Preset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(presetSchema.extend({ id: z.string() })).safeParse(JSON.parse(stored));
+    if (!parsed.success) return [];
+    return parsed.data.map(({ id, name, effects }) => ({ id, name, effects: normalizeEffects(effects) }));
+  } catch {
+    return [];
+  }
+}
+
+export function storePresets(presets: Preset[]): void {
+  const stored = presets.map(({ id, name, effects }) => ({ id, name, effects }));
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(stored));
+}
+
+export function exportPresetPack(presets: Preset[]): Blob {
+  const pack = {
+    format: PRESET_PACK_FORMAT,
+    version: PRESET_PACK_VERSION,
+    appVersion: APP_VERSION,
+    presets: presets.map(({ name, effects }) => ({ name, effects })),
+  };
+  return new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Presets from a pack file, given new ids. Throws with a user-facing message when the
+ * file isn't a valid pack.
+ */
+export function parsePresetPack(text: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const parsed = presetPackSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a valid preset pack: ${issue.path.join('.') || 'file'} ${issue.message.toLowerCase()}`);
+  }
+  return parsed.data.presets.map(({ name, effects }) => createPreset(name, normalizeEffects(effects)));
+}
@@ -0,0 +1,171 @@
+/**
+ * .artifex project files: a versioned JSON bundle with the source image, settings and a thumbnail.
+ */
+
+import { z } from 'zod';
+import type { AppliedEffects } from '@/types';
+import { normalizeEffects } from '@/lib/effects';
+import { APP_VERSION } from '@/lib/version';
+import { canvasToBlob, renderImageToCanvas } from '@/lib/export';
+import { decodeImageFile, imageSize, releaseImage } from '@/lib/decode';
+import { layoutArtwork, type ArtworkLayout } from '@/lib/render/render-artwork';
+
+export const PROJECT_FILE_EXTENSION = '.artifex';
+export const PROJECT_MIME_TYPE = 'application/vnd.artifex.project+json';
+
+const PROJECT_FORMAT = 'artifex-project';
+export const PROJECT_VERSION = 1;
+
+// Long side of the preview stored with the project
+const THUMBNAIL_SIZE = 256;
+
+export interface ArtifexProject {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  appVersion: string;
+  savedAt: string; // ISO timestamp
+  source: {
+    name: string;
+    type: string;
+    data: string; // Base64 image bytes, exactly as uploaded
+  };
+  effects: AppliedEffects;
+  seed: number;
+  layout: ArtworkLayout; // Paper and content geometry at the source's native resolution
+  thumbnail: string; // PNG data URL of the rendered artwork
+}
+
+type ProjectData = Record<string, unknown>;
+
+/**
+ * Upgrades from each older version to the next: PROJECT_MIGRATIONS[n] turns a version n
+ * file into version n + 1. Changes inside AppliedEffects are handled by normalizeEffects,
+ * so these only cover the layout of the project file itself.
+ */
+const PROJECT_MIGRATIONS: Record<number, (project: ProjectData) => ProjectData> = {};
+
+const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(PROJECT_VERSION),
+  appVersion: z.string(),
+  savedAt: z.string(),
+  source: z.object({
+    name: z.string(),
+    type: z.string(),
+    data: z.string(),
+  }),
+  // Individual settings are repaired by normalizeEffects rather than rejected
+  effects: z.record(z.unknown()),
+  seed: z.number().int(),
+  layout: z.object({
+    width: z.number(),
+    height: z.number(),
+    contentWidth: z.number(),
+    contentHeight: z.number(),
+    borderThickness: z.number(),
+  }),
+  thumbnail: z.string(),
+});
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large images don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the thumbnail'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function migrateProject(data: ProjectData): ProjectData {
+  let project = data;
+  let version = typeof project.version === 'number' ? project.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of Artifex (format ${version})`);
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project format ${version} is not supported`);
+    project = { ...migrate(project), version: version + 1 };
+    version++;
+  }
+  return project;
+}
+
+export async function createProject(file: File, effects: AppliedEffects): Promise<Blob> {
+  const image = await decodeImageFile(file);
+  const { width, height } = imageSize(image);
+  const thumbnailScale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const thumbnailCanvas = renderImageToCanvas(image, effects, thumbnailScale);
+  releaseImage(image);
+  const thumbnail = await blobToDataUrl(await canvasToBlob(thumbnailCanvas, 'image/png'));
+
+  const project: ArtifexProject = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    appVersion: APP_VERSION,
+    savedAt: new Date().toISOString(),
+    source: {
+      name: file.name,
+      type: file.type,
+      data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+    },
+    effects,
+    seed: effects.seed,
+    layout: layoutArtwork(width, height, effects),
+    thumbnail,
+  };
+  return new Blob([JSON.stringify(project)], { type: PROJECT_MIME_TYPE });
+}
+
+// File name for saving a project made from `sourceName`
+export function projectFileName(sourceName: string): string {
+  return `${sourceName.replace(/\.[^.]+$/, '') || 'artwork'}${PROJECT_FILE_EXTENSION}`;
+}
+
+/**
+ * Read a project file back into the uploaded image and its settings, migrating older
+ * formats. Throws with a user-facing message when the file isn't a usable project.
+ */
+export async function openProject(file: Blob): Promise<{ file: File; effects: AppliedEffects }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not an Artifex project');
+  }
+  if (!data || typeof data !== 'object' || (data as ProjectData).format !== PROJECT_FORMAT) {
+    throw new Error('The file is not an Artifex project');
+  }
+
+  const parsed = projectSchema.safeParse(migrateProject(data as ProjectData));
+  if (!parsed.success) throw new Error('The project file is damaged or incomplete');
+  const { source, effects, seed } = parsed.data;
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(source.data);
+  } catch {
+    throw new Error('The image in the project file is damaged');
+  }
+  return {
+    file: new File([bytes], source.name, { type: source.type }),
+    // The top-level seed is validated along with the rest of the settings
+    effects: normalizeEffects({ ...(effects as Partial<AppliedEffects>), seed }),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Asynchronous artwork renderer for interactive previews.
+ * Renders in a worker on an OffscreenCanvas where supported, otherwise on the main thread.
+ * Each render() supersedes the previous one: stale frames resolve to null instead of being drawn.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { createStagedRenderer, type RenderOptions } from '@/lib/render/render-artwork';
+import type { RenderWorkerRequest, RenderWorkerResponse } from '@/lib/render/worker-protocol';
+import type { DecodedImage } from '@/lib/decode';
+
+export type RenderedFrame = ImageBitmap | HTMLCanvasElement;
+
+export interface ArtworkRenderer {
+  setSource(source: DecodedImage): void;
+  render(effects: AppliedEffects, options: RenderOptions): Promise<RenderedFrame | null>;
+  cancel(): void;
+  dispose(): void;
+}
+
+interface PendingFrame {
+  frameId: number;
+  resolve: (frame: RenderedFrame | null) => void;
+  reject: (error: Error) => void;
+}
+
+export function supportsWorkerRendering(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+export function createArtworkRenderer(): ArtworkRenderer {
+  if (supportsWorkerRendering()) {
+    try {
+      return createWorkerRenderer();
+    } catch (error) {
+      console.warn('Falling back to main-thread rendering:', error);
+    }
+  }
+  return createMainThreadRenderer();
+}
+
+function createWorkerRenderer(): ArtworkRenderer {
+  const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  // Replaces the worker for good once it fails to load or crashes
+  let fallback: ArtworkRenderer | null = null;
+  let source: DecodedImage | null = null;
+  let latest: { effects: AppliedEffects; options: RenderOptions } | null = null;
+  let sourceId = 0;
+  let sourceReady: Promise<void> = Promise.resolve();
+  let frameId = 0;
+  let pending: PendingFrame | null = null;
+
+  const send = (message: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const settleStale = () => {
+    pending?.resolve(null);
+    pending = null;
+  };
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    const message = event.data;
+    if (!pending || message.frameId !== pending.frameId) {
+      // A frame nobody is waiting for any more
+      if (message.type === 'frame') message.bitmap.close();
+      return;
+    }
+    const { resolve, reject } = pending;
+    pending = null;
+    if (message.type === 'frame') {
+      resolve(message.bitmap);
+    } else {
+      reject(new Error(message.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.warn('Render worker failed, falling back to main-thread rendering:', event.message);
+    worker.terminate();
+    fallback = createMainThreadRenderer();
+    if (source) fallback.setSource(source);
+    // The frame in flight is redrawn on the main thread rather than lost
+    const frame = pending;
+    pending = null;
+    if (frame && latest) fallback.render(latest.effects, latest.options).then(frame.resolve, frame.reject);
+  };
+
+  return {
+    setSource(image) {
+      source = image;
+      if (fallback) return fallback.setSource(image);
+      const id = ++sourceId;
+      sourceReady = createImageBitmap(image).then((bitmap) => {
+        send({ type: 'source', sourceId: id, bitmap }, [bitmap]);
+      });
+      // Reported by the next render(); caught here so it isn't unhandled when none follows
+      sourceReady.catch(() => {});
+    },
+    render(effects, options) {
+      if (fallback) return fallback.render(effects, options);
+      settleStale();
+      latest = { effects, options };
+      const id = ++frameId;
+      return new Promise((resolve, reject) => {
+        pending = { frameId: id, resolve, reject };
+        sourceReady.then(
+          () => {
+            if (pending?.frameId !== id) return; // Superseded while the source was decoding
+            send({ type: 'render', frameId: id, sourceId, effects, options });
+          },
+          (error) => {
+            if (pending?.frameId !== id) return;
+            pending = null;
+            reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        );
+      });
+    },
+    cancel() {
+      if (fallback) return fallback.cancel();
+      settleStale();
+      send({ type: 'cancel', frameId });
+    },
+    dispose() {
+      if (fallback) return fallback.dispose();
+      settleStale();
+      worker.terminate();
+    },
+  };
+}
+
+function createMainThreadRenderer(): ArtworkRenderer {
+  const stagedRenderer = createStagedRenderer();
+  let source: DecodedImage | null = null;
+  let frameRequest: number | null = null;
+  let pending: PendingFrame | null = null;
+  let frameId = 0;
+
+  const settleStale = () => {
+    if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+    frameRequest = null;
+    pending?.resolve(null);
+    pending = null;
+  };
+
+  return {
+    setSource(image) {
+      source = image;
+      stagedRenderer.clear();
+    },
+    render(effects, options) {
+      settleStale();
+      const id = ++frameId;
+      return new Promise((resolve, reject) => {
+        pending = { frameId: id, resolve, reject };
+        // Coalesce to one render per animation frame; earlier requests in the frame are dropped
+        frameRequest = requestAnimationFrame(() => {
+          frameRequest = null;
+          pending = null;
+          if (!source) {
+            reject(new Error('Source image is not loaded'));
+            return;
+          }
+          try {
+            const dpr = options.dpr ?? 1;
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(options.width * dpr));
+            canvas.height = Math.max(1, Math.round(options.height * dpr));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Canvas 2D context is not available');
+            stagedRenderer.render(source, effects, ctx, options);
+            resolve(canvas);
+          } catch (error) {
+            reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+      });
+    },
+    cancel() {
+      settleStale();
+    },
+    dispose() {
+      settleStale();
+      stagedRenderer.clear();
+      source = null;
+    },
+  };
+}
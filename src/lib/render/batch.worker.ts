@@ -0,0 +1,51 @@
+/**
+ * Batch worker: decodes, renders and encodes one image per job at full resolution,
+ * so a long batch never blocks the page. Jobs run in the order they arrive.
+ */
+
+import { renderArtwork } from '@/lib/render/render-artwork';
+import { createLayer, getLayerContext } from '@/lib/render/layers';
+import { encodeArtwork, exportExif, exportLayout } from '@/lib/export';
+import type { BatchWorkerRequest, BatchWorkerResponse } from '@/lib/render/worker-protocol';
+import { readFileFormat } from '@/lib/image-format';
+import { IMAGE_DECODERS } from '@/lib/decoders';
+
+const worker = self as unknown as Worker;
+let queue: Promise<void> = Promise.resolve();
+
+function post(message: BatchWorkerResponse) {
+  worker.postMessage(message);
+}
+
+// Upright according to the file's EXIF orientation, like the preview. Only decoders that
+// don't need the document are sent here; animated sources export their first frame.
+async function decodeSource(file: Blob): Promise<ImageBitmap> {
+  const format = await readFileFormat(file);
+  const decoder = format ? IMAGE_DECODERS[format] : undefined;
+  if (decoder) return createImageBitmap(await decoder.decode(file, {}));
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+async function runJob({ jobId, file, effects, settings, background }: BatchWorkerRequest) {
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = await decodeSource(file);
+    const layout = exportLayout(bitmap.width, bitmap.height, effects, settings.scale);
+    const canvas = createLayer(Math.round(layout.width), Math.round(layout.height));
+    renderArtwork(bitmap, effects, getLayerContext(canvas), { width: canvas.width, height: canvas.height });
+    bitmap.close();
+    bitmap = null;
+    const blob = await encodeArtwork(canvas, effects, settings, background, await exportExif(file, settings, canvas));
+    post({ type: 'exported', jobId, blob, width: canvas.width, height: canvas.height });
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmap?.close();
+  }
+}
+
+worker.onmessage = (event: MessageEvent<BatchWorkerRequest>) => {
+  const request = event.data;
+  // One image in memory at a time
+  queue = queue.then(() => runJob(request));
+};
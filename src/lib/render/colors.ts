@@ -0,0 +1,123 @@
+/**
+ * Paper stock and shadow colours, including the tint picked up from the image in auto mode.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { createLayer, getLayerContext } from '@/lib/render/layers';
+
+export const PAPER_FILL_MODES = ['gradient', 'solid'] as const;
+export type PaperFillMode = typeof PAPER_FILL_MODES[number];
+
+export const PAPER_FILL_MODE_LABELS: Record<PaperFillMode, string> = {
+  gradient: 'Gradient',
+  solid: 'Solid',
+};
+
+// Quick picks offered next to the colour pickers
+export const PAPER_STOCK_COLORS: Array<{ label: string; value: string }> = [
+  { label: 'White', value: '#fefefe' },
+  { label: 'Cream', value: '#f4ecd6' },
+  { label: 'Kraft', value: '#b88a5a' },
+  { label: 'Black card', value: '#1e1e20' },
+  { label: 'Pastel pink', value: '#f6d7dd' },
+  { label: 'Pastel blue', value: '#d6e4f4' },
+  { label: 'Pastel green', value: '#d9eedc' },
+];
+
+export type Rgb = [number, number, number];
+
+export interface PaperPalette {
+  face: Rgb; // Paper surface at the light end of the gradient
+  faceShade: Rgb; // Far end of the gradient; equal to face when solid
+  core: Rgb; // Exposed core along a tear
+  shadow: Rgb;
+}
+
+// Plain white stock, also the base that auto mode tints
+const WHITE_STOCK: Rgb = [254, 254, 254];
+// How much darker the far end of the paper gradient is
+const GRADIENT_FALLOFF = 0.97;
+// The torn core is paler than the surface dye
+const CORE_LIGHTENING = 0.7;
+// Strength of the image tint on white stock in auto mode
+const AUTO_TINT = 0.18;
+// Long side of the downsampled image used to find its dominant colour
+const COLOR_SAMPLE_SIZE = 48;
+
+export function parseHexColor(hex: string): Rgb | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function formatHexColor([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function mixColors(a: Rgb, b: Rgb, t: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+export function rgbaString([r, g, b]: Rgb, alpha: number): string {
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+}
+
+/**
+ * Most prominent colour of the image's opaque pixels, favouring saturated colours over
+ * greys so a photo on a white background still yields its subject's hue.
+ * Returns null when the image has no opaque pixels.
+ */
+export function dominantColor(source: CanvasImageSource): Rgb | null {
+  const canvas = createLayer(COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+  const ctx = getLayerContext(canvas);
+  ctx.drawImage(source, 0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+
+  // 4 bits per channel; each bucket keeps the sum of its colours for an exact average
+  const buckets = new Map<number, { weight: number; sum: Rgb; count: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const saturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { weight: 0, sum: [0, 0, 0] as Rgb, count: 0 };
+    bucket.weight += 0.25 + saturation;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    bucket.count++;
+    buckets.set(key, bucket);
+  }
+
+  let best: { weight: number; sum: Rgb; count: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.weight > best.weight) best = bucket;
+  }
+  if (!best) return null;
+  const { sum, count } = best;
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+}
+
+/**
+ * Colours the paper stage draws with. In auto mode the paper is white stock tinted
+ * towards the image's dominant colour; `source` is only sampled then.
+ */
+export function resolvePaperPalette(effects: AppliedEffects, source: CanvasImageSource): PaperPalette {
+  let face = parseHexColor(effects.paperColor) ?? WHITE_STOCK;
+  if (effects.paperColorAuto) {
+    const tint = dominantColor(source);
+    face = tint ? mixColors(WHITE_STOCK, tint, AUTO_TINT) : WHITE_STOCK;
+  }
+  const shade: Rgb = [face[0] * GRADIENT_FALLOFF, face[1] * GRADIENT_FALLOFF, face[2] * GRADIENT_FALLOFF];
+  return {
+    face,
+    faceShade: effects.paperFillMode === 'gradient' ? shade : face,
+    core: mixColors(face, [255, 255, 255], CORE_LIGHTENING),
+    shadow: parseHexColor(effects.shadowColor) ?? [0, 0, 0],
+  };
+}
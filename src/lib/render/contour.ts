@@ -0,0 +1,232 @@
+/**
+ * Subject outlines for transparent images: alpha mask -> dilation -> marching squares -> simplification.
+ */
+
+import type { ArtworkLayout } from '@/lib/render/render-artwork';
+import { createLayer, getLayerContext } from '@/lib/render/layers';
+
+export const CUTOUT_MODES = ['rectangle', 'subject'] as const;
+export type CutoutMode = typeof CUTOUT_MODES[number];
+
+export const CUTOUT_MODE_LABELS: Record<CutoutMode, string> = {
+  rectangle: 'Rectangle',
+  subject: 'Around subject',
+};
+
+export type Point = [number, number];
+
+// Long side of the alpha mask in cells; the tear adds the fine detail back
+const MASK_SIZE = 384;
+// Alpha at or above which a pixel counts as subject
+const ALPHA_THRESHOLD = 128;
+// Minimum share of transparent content pixels for the image to count as a cut-out
+const MIN_TRANSPARENT_SHARE = 0.005;
+// Simplification tolerance in mask cells
+const SIMPLIFY_TOLERANCE = 0.75;
+
+// Chamfer distance (3-4 metric, in thirds of a cell) from every cell to the nearest subject cell
+function distanceToSubject(mask: Uint8Array, width: number, height: number): Float32Array {
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < distance.length; i++) distance[i] = mask[i] ? 0 : Infinity;
+
+  const relax = (index: number, neighbour: number, cost: number) => {
+    const candidate = distance[neighbour] + cost;
+    if (candidate < distance[index]) distance[index] = candidate;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+  return distance;
+}
+
+// Edge midpoints of a marching-squares cell, as doubled integer coordinates
+type CellEdge = 'top' | 'right' | 'bottom' | 'left';
+const CASE_SEGMENTS: CellEdge[][][] = [
+  [],
+  [['left', 'bottom']],
+  [['bottom', 'right']],
+  [['left', 'right']],
+  [['top', 'right']],
+  [['left', 'top'], ['bottom', 'right']],
+  [['top', 'bottom']],
+  [['left', 'top']],
+  [['left', 'top']],
+  [['top', 'bottom']],
+  [['top', 'right'], ['left', 'bottom']],
+  [['top', 'right']],
+  [['left', 'right']],
+  [['bottom', 'right']],
+  [['left', 'bottom']],
+  [],
+];
+
+function edgeMidpoint(edge: CellEdge, x: number, y: number): Point {
+  switch (edge) {
+    case 'top': return [2 * x + 1, 2 * y];
+    case 'right': return [2 * x + 2, 2 * y + 1];
+    case 'bottom': return [2 * x + 1, 2 * y + 2];
+    case 'left': return [2 * x, 2 * y + 1];
+  }
+}
+
+// Closed iso-lines of a binary grid whose border cells are all empty
+function marchingSquares(grid: Uint8Array, width: number, height: number): Point[][] {
+  const stride = 2 * width + 1;
+  const neighbours = new Map<number, number[]>();
+  const link = (a: Point, b: Point) => {
+    const keyA = a[0] + a[1] * stride;
+    const keyB = b[0] + b[1] * stride;
+    neighbours.set(keyA, [...(neighbours.get(keyA) ?? []), keyB]);
+    neighbours.set(keyB, [...(neighbours.get(keyB) ?? []), keyA]);
+  };
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const index =
+        (grid[y * width + x] << 3) |
+        (grid[y * width + x + 1] << 2) |
+        (grid[(y + 1) * width + x + 1] << 1) |
+        grid[(y + 1) * width + x];
+      CASE_SEGMENTS[index].forEach(([from, to]) => link(edgeMidpoint(from, x, y), edgeMidpoint(to, x, y)));
+    }
+  }
+
+  const loops: Point[][] = [];
+  const visited = new Set<number>();
+  neighbours.forEach((_, start) => {
+    if (visited.has(start)) return;
+    const loop: Point[] = [];
+    let previous = -1;
+    let current = start;
+    while (!visited.has(current)) {
+      visited.add(current);
+      loop.push([(current % stride) / 2, Math.floor(current / stride) / 2]);
+      const next = (neighbours.get(current) ?? []).find((key) => key !== previous && !visited.has(key));
+      if (next === undefined) break;
+      previous = current;
+      current = next;
+    }
+    if (loop.length >= 3) loops.push(loop);
+  });
+  return loops;
+}
+
+export function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+// Ramer-Douglas-Peucker on an open polyline
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  const [ax, ay] = points[0];
+  const [bx, by] = points[points.length - 1];
+  const length = Math.hypot(bx - ax, by - ay) || 1;
+  let farthest = 0;
+  let farthestIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i];
+    const distance = Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+    if (distance > farthest) {
+      farthest = distance;
+      farthestIndex = i;
+    }
+  }
+  if (farthest <= tolerance) return [points[0], points[points.length - 1]];
+  const left = simplifyPolyline(points.slice(0, farthestIndex + 1), tolerance);
+  const right = simplifyPolyline(points.slice(farthestIndex), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+// Simplify a closed polygon by splitting it at the point farthest from its first point
+function simplifyPolygon(points: Point[], tolerance: number): Point[] {
+  const [ox, oy] = points[0];
+  let splitIndex = 0;
+  let farthest = -1;
+  points.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - ox, y - oy);
+    if (distance > farthest) {
+      farthest = distance;
+      splitIndex = i;
+    }
+  });
+  const first = simplifyPolyline(points.slice(0, splitIndex + 1), tolerance);
+  const second = simplifyPolyline([...points.slice(splitIndex), points[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+/**
+ * Trace the outline of the opaque subject of `source` as placed by `layout`, grown by `dilation` px.
+ * Returns a closed polygon in layout coordinates, or null when the image has no usable transparency.
+ * When the subject is split into several islands, the largest one is traced.
+ */
+export function traceSubjectOutline(source: CanvasImageSource, layout: ArtworkLayout, dilation: number): Point[] | null {
+  const scale = MASK_SIZE / Math.max(layout.width, layout.height);
+  // One empty cell of padding on every side keeps every iso-line closed
+  const width = Math.ceil(layout.width * scale) + 2;
+  const height = Math.ceil(layout.height * scale) + 2;
+
+  const canvas = createLayer(width, height);
+  const ctx = getLayerContext(canvas);
+  const left = 1 + layout.borderThickness * scale;
+  const top = 1 + layout.borderThickness * scale;
+  const contentWidth = layout.contentWidth * scale;
+  const contentHeight = layout.contentHeight * scale;
+  ctx.drawImage(source, left, top, contentWidth, contentHeight);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const mask = new Uint8Array(width * height);
+  let subjectCells = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (data[i * 4 + 3] >= ALPHA_THRESHOLD) {
+      mask[i] = 1;
+      subjectCells++;
+    }
+  }
+  const contentCells = Math.max(1, Math.round(contentWidth) * Math.round(contentHeight));
+  if (subjectCells === 0 || 1 - subjectCells / contentCells < MIN_TRANSPARENT_SHARE) return null;
+
+  const distance = distanceToSubject(mask, width, height);
+  const radius = dilation * scale * 3; // Chamfer distances are in thirds of a cell
+  const grown = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      grown[i] = distance[i] <= radius ? 1 : 0;
+    }
+  }
+
+  const loops = marchingSquares(grown, width, height);
+  if (loops.length === 0) return null;
+  const largest = loops.reduce((best, loop) => (Math.abs(polygonArea(loop)) > Math.abs(polygonArea(best)) ? loop : best));
+  const simplified = simplifyPolygon(largest, SIMPLIFY_TOLERANCE);
+  if (simplified.length < 3) return null;
+
+  // Mask samples sit at cell centres; map back to layout coordinates
+  return simplified.map(([x, y]) => [(x + 0.5 - 1) / scale, (y + 0.5 - 1) / scale]);
+}
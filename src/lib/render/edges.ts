@@ -0,0 +1,143 @@
+/**
+ * Edge geometry generators. Each returns inward offsets along one side of the paper.
+ */
+
+import { mapRange, smoothstep } from '@/lib/render/math';
+import { createRandom, deriveSeed, type RandomSource } from '@/lib/random';
+
+// Samples taken per tooth/period of a patterned edge
+export const EDGE_SAMPLES_PER_TOOTH = 6;
+
+// Edge families selectable with the cutout style slider, in slider order
+export const EDGE_STYLES = ['hand-torn', 'deckled', 'pinking', 'perforated', 'scalloped', 'clean'] as const;
+export type EdgeStyle = typeof EDGE_STYLES[number];
+
+// Every generator returns numPoints + 1 inward offsets, so neighbouring styles can be blended point by point
+type EdgeGenerator = (numPoints: number, intensity: number, teeth: number, random: RandomSource) => number[];
+
+// Generate natural paper tear using multiple noise octaves
+export function generateNaturalTear(numPoints: number, intensity: number, detail: number, random: RandomSource): number[] {
+  const controlPoints: number[] = [];
+  const numControlPoints = Math.max(20, Math.floor(detail * 0.8));
+  
+  for (let i = 0; i <= numControlPoints; i++) {
+    const t = i / numControlPoints;
+    let value = 0;
+    
+    // Multiple octaves of noise for natural variation
+    value += Math.sin(t * Math.PI * 2) * 0.3; // Base wave
+    value += Math.sin(t * Math.PI * 6) * 0.2; // Medium frequency
+    value += Math.sin(t * Math.PI * 12) * 0.1; // High frequency
+    value += (random() - 0.5) * 0.4; // Random variation
+    
+    // Apply intensity and create natural fade at edges
+    const edgeFade = Math.sin(t * Math.PI);
+    value *= intensity * edgeFade;
+    
+    controlPoints.push(value);
+  }
+
+  // Resample the control points onto the shared sample grid
+  const points: number[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    const pos = (i / numPoints) * numControlPoints;
+    const index = Math.min(Math.floor(pos), numControlPoints - 1);
+    const blend = smoothstep(0, 1, pos - index);
+    points.push(controlPoints[index] + (controlPoints[index + 1] - controlPoints[index]) * blend);
+  }
+  
+  return points;
+}
+
+// Deckled edge: shallow, feathery irregularity of handmade paper
+function generateDeckledEdge(numPoints: number, intensity: number, teeth: number, random: RandomSource): number[] {
+  const points: number[] = [];
+  let drift = 0;
+
+  for (let i = 0; i <= numPoints; i++) {
+    const t = i / numPoints;
+    drift = drift * 0.7 + (random() - 0.5) * 0.6; // Correlated fibre wander
+    let value = 0.35 + Math.sin(t * Math.PI * teeth * 0.5) * 0.1 + drift * 0.3;
+    value += (random() - 0.5) * 0.2; // Fine fibre jitter
+    points.push(Math.max(0, value) * intensity * 0.5 * Math.sin(t * Math.PI));
+  }
+
+  return points;
+}
+
+// Pinking-shears zigzag: regular triangular teeth
+function generatePinkingEdge(numPoints: number, intensity: number, teeth: number): number[] {
+  const points: number[] = [];
+
+  for (let i = 0; i <= numPoints; i++) {
+    const phase = ((i / numPoints) * teeth) % 1;
+    points.push((1 - Math.abs(phase * 2 - 1)) * intensity * 0.6);
+  }
+
+  return points;
+}
+
+// Perforated stamp edge: flat margin broken by semicircular holes
+function generatePerforatedEdge(numPoints: number, intensity: number, teeth: number): number[] {
+  const points: number[] = [];
+  const holeRadius = 0.35; // Fraction of the hole spacing
+
+  for (let i = 0; i <= numPoints; i++) {
+    const phase = ((i / numPoints) * teeth) % 1;
+    const distance = Math.abs(phase - 0.5);
+    const depth = distance < holeRadius ? Math.sqrt(holeRadius * holeRadius - distance * distance) / holeRadius : 0;
+    points.push(depth * intensity * 0.5);
+  }
+
+  return points;
+}
+
+// Scalloped edge: row of outward arcs meeting in cusps
+function generateScallopedEdge(numPoints: number, intensity: number, teeth: number): number[] {
+  const points: number[] = [];
+
+  for (let i = 0; i <= numPoints; i++) {
+    const phase = ((i / numPoints) * teeth) % 1;
+    points.push((1 - Math.sin(phase * Math.PI)) * intensity * 0.5);
+  }
+
+  return points;
+}
+
+// Clean scissor cut: almost straight, with the slow wobble of a hand-held cut
+function generateCleanCut(numPoints: number, intensity: number, teeth: number, random: RandomSource): number[] {
+  const points: number[] = [];
+  const wobblePhase = random() * Math.PI * 2;
+
+  for (let i = 0; i <= numPoints; i++) {
+    const t = i / numPoints;
+    const wobble = Math.sin(t * Math.PI * 3 + wobblePhase) * 0.05;
+    points.push((0.1 + wobble) * intensity * Math.sin(t * Math.PI));
+  }
+
+  return points;
+}
+
+const edgeGenerators: Record<EdgeStyle, EdgeGenerator> = {
+  'hand-torn': (numPoints, intensity, teeth, random) => generateNaturalTear(numPoints, intensity, teeth * 2, random),
+  deckled: generateDeckledEdge,
+  pinking: generatePinkingEdge,
+  perforated: generatePerforatedEdge,
+  scalloped: generateScallopedEdge,
+  clean: generateCleanCut,
+};
+
+// Generate an edge for a cutout style value (0-100), blending the two nearest edge families
+export function generateEdgeProfile(cutoutStyle: number, numPoints: number, intensity: number, teeth: number, seed: number): number[] {
+  const position = mapRange(Math.max(0, Math.min(100, cutoutStyle)), 0, 100, 0, EDGE_STYLES.length - 1);
+  const lowerIndex = Math.min(Math.floor(position), EDGE_STYLES.length - 2);
+  const blend = position - lowerIndex;
+
+  // Each family draws from its own stream of the same seed, so blending never reshuffles either side
+  const lower = edgeGenerators[EDGE_STYLES[lowerIndex]](numPoints, intensity, teeth, createRandom(deriveSeed(seed, lowerIndex)));
+  if (blend <= 0) return lower;
+  const upper = edgeGenerators[EDGE_STYLES[lowerIndex + 1]](numPoints, intensity, teeth, createRandom(deriveSeed(seed, lowerIndex + 1)));
+  if (blend >= 1) return upper;
+
+  return lower.map((value, i) => value + (upper[i] - value) * blend);
+}
@@ -0,0 +1,18 @@
+import type { RenderContext } from '@/lib/render/render-artwork';
+
+export type LayerCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// Scratch canvas for intermediate layers; OffscreenCanvas where available so it also works in workers
+export function createLayer(width: number, height: number): LayerCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function getLayerContext(canvas: LayerCanvas): RenderContext {
+  const ctx = canvas.getContext('2d') as RenderContext | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  return ctx;
+}
@@ -0,0 +1,76 @@
+/**
+ * Single light source shared by the shadow, edge shading and texture relief.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { mapRange } from '@/lib/render/math';
+import { mapEffect } from '@/lib/effect-registry';
+
+export interface LightModel {
+  direction: [number, number]; // Unit vector on the page pointing towards the light (screen coordinates, y down)
+  vector: [number, number, number]; // Unit vector towards the light, z pointing out of the page
+  elevation: number; // Radians above the page
+  intensity: number; // Contrast multiplier, 1 at the default intensity
+}
+
+export interface ShadowParams {
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  alpha: number;
+}
+
+// Height of the paper above the surface (px at the reference size); sets shadow length for a given elevation
+const PAPER_LIFT = 4;
+// Longest shadow the light can cast (px at the reference size); matches the old ±15 px offset range
+const MAX_SHADOW_DISTANCE = 15 * Math.SQRT2;
+// Match the registry's lightElevation output (5-90°), for converting legacy offsets
+const MIN_ELEVATION = (5 * Math.PI) / 180;
+const MAX_ELEVATION = Math.PI / 2;
+
+export function resolveLight(effects: AppliedEffects): LightModel {
+  const angle = (effects.lightAngle * Math.PI) / 180;
+  const elevation = (mapEffect(effects, 'lightElevation') * Math.PI) / 180;
+  // Angle 0 is light from the top of the page, increasing clockwise
+  const direction: [number, number] = [Math.sin(angle), -Math.cos(angle)];
+  const planar = Math.cos(elevation);
+  return {
+    direction,
+    vector: [direction[0] * planar, direction[1] * planar, Math.sin(elevation)],
+    elevation,
+    intensity: mapEffect(effects, 'lightIntensity'),
+  };
+}
+
+function shadowDistance(elevation: number): number {
+  return Math.min(MAX_SHADOW_DISTANCE, PAPER_LIFT / Math.tan(elevation));
+}
+
+// Drop shadow cast away from the light, in px at the reference size
+export function shadowFromLight(light: LightModel, effects: AppliedEffects): ShadowParams {
+  const distance = shadowDistance(light.elevation);
+  const baseBlur = mapEffect(effects, 'animShadowBlur');
+  return {
+    offsetX: -light.direction[0] * distance,
+    offsetY: -light.direction[1] * distance,
+    // Grazing light spreads the penumbra along with the shadow
+    blur: baseBlur + distance * 0.5,
+    alpha: Math.min(1, mapEffect(effects, 'animShadowStrength') * mapRange(light.intensity, 0, 2, 0.5, 1.5)),
+  };
+}
+
+// Equivalent light for the legacy 0-100 shadow offset sliders (each mapped to -15..15 px)
+export function lightFromShadowOffsets(offsetX: number, offsetY: number): Pick<AppliedEffects, 'lightAngle' | 'lightElevation'> {
+  const x = mapRange(offsetX, 0, 100, -15, 15);
+  const y = mapRange(offsetY, 0, 100, -15, 15);
+  const distance = Math.hypot(x, y);
+  if (distance === 0) return { lightAngle: 0, lightElevation: 100 };
+
+  // The light sits opposite the shadow
+  const angle = (Math.atan2(-x, y) * 180) / Math.PI;
+  const elevation = Math.max(MIN_ELEVATION, Math.atan(PAPER_LIFT / Math.min(distance, MAX_SHADOW_DISTANCE)));
+  return {
+    lightAngle: Math.round((angle + 360) % 360),
+    lightElevation: Math.round(mapRange(elevation, MIN_ELEVATION, MAX_ELEVATION, 0, 100)),
+  };
+}
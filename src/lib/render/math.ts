@@ -0,0 +1,10 @@
+export function mapRange(value: number, inMin: number, inMax: number, outMin: number, outMax: number): number {
+  if (inMin === inMax) return outMin;
+  return ((value - inMin) * (outMax - outMin)) / (inMax - inMin) + outMin;
+}
+
+// Smooth interpolation for natural curves
+export function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
@@ -0,0 +1,212 @@
+/**
+ * Framework-free artwork renderer shared by the preview, exports and batch jobs.
+ * Works on any 2D context, including OffscreenCanvas contexts inside workers.
+ */
+
+import type { AppliedEffects } from '@/types';
+import type { PaperTextureTile } from '@/lib/render/textures';
+import { createLayer, getLayerContext, type LayerCanvas } from '@/lib/render/layers';
+import { mapEffect } from '@/lib/effect-registry';
+import { resolvePaperPalette } from '@/lib/render/colors';
+import {
+  STAGE_UPSTREAM,
+  buildGeometry,
+  buildPaperTexture,
+  drawImageLayer,
+  drawPaper,
+  drawPaperTexture,
+  stageInputKey,
+  type ArtworkGeometry,
+  type RenderStage,
+} from '@/lib/render/render-stages';
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface RenderOptions {
+  width: number; // Output artwork width in CSS pixels, paper border included
+  height: number; // Output artwork height in CSS pixels, paper border included
+  dpr?: number; // Device pixels per CSS pixel; the target canvas must be width * dpr by height * dpr
+  seed?: number; // Overrides effects.seed
+}
+
+export interface ArtworkLayout {
+  width: number;
+  height: number;
+  contentWidth: number;
+  contentHeight: number;
+  borderThickness: number;
+}
+
+// Paper border as a fraction of the content's shorter side
+function borderFraction(effects: AppliedEffects): number {
+  return mapEffect(effects, 'animEdgeThickness');
+}
+
+// Lay out the artwork around image content of the given size
+export function layoutArtwork(contentWidth: number, contentHeight: number, effects: AppliedEffects): ArtworkLayout {
+  const borderThickness = Math.min(contentWidth, contentHeight) * borderFraction(effects);
+  return {
+    width: contentWidth + 2 * borderThickness,
+    height: contentHeight + 2 * borderThickness,
+    contentWidth,
+    contentHeight,
+    borderThickness,
+  };
+}
+
+// Recover the layout from a final output size (the inverse of layoutArtwork)
+export function layoutArtworkForOutput(width: number, height: number, effects: AppliedEffects): ArtworkLayout {
+  const fraction = borderFraction(effects);
+  const borderThickness = (Math.min(width, height) / (1 + 2 * fraction)) * fraction;
+  return {
+    width,
+    height,
+    contentWidth: width - 2 * borderThickness,
+    contentHeight: height - 2 * borderThickness,
+    borderThickness,
+  };
+}
+
+// Fit image content into a bounding box, honouring the size setting
+export function fitContent(sourceWidth: number, sourceHeight: number, effects: AppliedEffects, maxWidth: number, maxHeight: number) {
+  const imageContentScale = mapEffect(effects, 'animSize');
+  let scaledImgContentWidth = sourceWidth * imageContentScale;
+  let scaledImgContentHeight = sourceHeight * imageContentScale;
+  const contentAspectRatio = scaledImgContentWidth / scaledImgContentHeight;
+
+  if (scaledImgContentWidth > maxWidth) {
+    scaledImgContentWidth = maxWidth;
+    scaledImgContentHeight = scaledImgContentWidth / contentAspectRatio;
+  }
+  if (scaledImgContentHeight > maxHeight) {
+    scaledImgContentHeight = maxHeight;
+    scaledImgContentWidth = scaledImgContentHeight * contentAspectRatio;
+  }
+
+  return { width: scaledImgContentWidth, height: scaledImgContentHeight };
+}
+
+interface CachedStage<T> {
+  key: string;
+  value: T;
+}
+
+interface StageCache {
+  geometry?: CachedStage<ArtworkGeometry>;
+  paper?: CachedStage<LayerCanvas>;
+  image?: CachedStage<LayerCanvas>;
+  texture?: CachedStage<{ tile: PaperTextureTile; canvas: LayerCanvas }>;
+}
+
+export interface StagedRenderer {
+  render(source: CanvasImageSource, effects: AppliedEffects, target: RenderContext, options: RenderOptions): void;
+  clear(): void;
+}
+
+/**
+ * Renderer that keeps each stage's output between frames and rebuilds only
+ * the stages whose inputs changed (see STAGE_INVALIDATION).
+ */
+export function createStagedRenderer(): StagedRenderer {
+  let cache: StageCache = {};
+  let lastSource: CanvasImageSource | null = null;
+  let sourceVersion = 0;
+
+  // Stage key: the settings feeding the stage plus the keys of the stages it is built from
+  const keyFor = (stage: RenderStage, effects: AppliedEffects, frameKey: string): string => {
+    const upstream = STAGE_UPSTREAM[stage].map((name) => cache[name]?.key ?? '').join('|');
+    return `${frameKey}|${stageInputKey(stage, effects)}|${upstream}`;
+  };
+
+  return {
+    render(source, effects, target, options) {
+      const dpr = options.dpr ?? 1;
+      const seed = options.seed ?? effects.seed;
+      const layout = layoutArtworkForOutput(options.width, options.height, effects);
+      const deviceWidth = Math.max(1, Math.round(layout.width * dpr));
+      const deviceHeight = Math.max(1, Math.round(layout.height * dpr));
+      const frameKey = `${layout.width}x${layout.height}@${dpr}#${seed}`;
+
+      if (source !== lastSource) {
+        lastSource = source;
+        sourceVersion++;
+      }
+
+      // Subject cutouts trace the source's alpha, so geometry also depends on the source
+      const geometryKey = `${keyFor('geometry', effects, frameKey)}|source=${effects.cutoutMode === 'subject' ? sourceVersion : ''}`;
+      if (cache.geometry?.key !== geometryKey) {
+        cache.geometry = { key: geometryKey, value: buildGeometry(layout, effects, seed, source) };
+      }
+      const geometry = cache.geometry.value;
+
+      // Auto paper colour samples the source, so the paper then also depends on it
+      const paperKey = `${keyFor('paper', effects, frameKey)}|source=${effects.paperColorAuto ? sourceVersion : ''}`;
+      if (cache.paper?.key !== paperKey) {
+        const canvas = createLayer(deviceWidth, deviceHeight);
+        const ctx = getLayerContext(canvas);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        drawPaper(ctx, geometry, effects, resolvePaperPalette(effects, source), dpr);
+        cache.paper = { key: paperKey, value: canvas };
+      }
+
+      const imageKey = `${keyFor('image', effects, frameKey)}|source=${sourceVersion}`;
+      if (cache.image?.key !== imageKey) {
+        const canvas = createLayer(deviceWidth, deviceHeight);
+        const ctx = getLayerContext(canvas);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        drawImageLayer(ctx, geometry, source);
+        cache.image = { key: imageKey, value: canvas };
+      }
+
+      const textureKey = keyFor('texture', effects, frameKey);
+      if (cache.texture?.key !== textureKey) {
+        const tile = buildPaperTexture(effects, seed);
+        const canvas = createLayer(tile.pixels.width, tile.pixels.height);
+        getLayerContext(canvas).putImageData(tile.pixels, 0, 0);
+        cache.texture = { key: textureKey, value: { tile, canvas } };
+      }
+
+      // Composite the cached layers
+      target.save();
+      target.setTransform(1, 0, 0, 1, 0, 0);
+      target.clearRect(0, 0, deviceWidth, deviceHeight);
+      target.drawImage(cache.paper.value, 0, 0);
+      target.drawImage(cache.image.value, 0, 0);
+      target.setTransform(dpr, 0, 0, dpr, 0, 0);
+      drawPaperTexture(target, geometry, cache.texture.value.canvas, cache.texture.value.tile, effects);
+      target.restore();
+    },
+    clear() {
+      cache = {};
+      lastSource = null;
+    },
+  };
+}
+
+/**
+ * Render the artwork for `source` into `target` in one shot, without keeping layers.
+ * Draws in CSS pixels over (0, 0, options.width, options.height), scaled by options.dpr.
+ */
+export function renderArtwork(
+  source: CanvasImageSource,
+  effects: AppliedEffects,
+  target: RenderContext,
+  options: RenderOptions
+): void {
+  const dpr = options.dpr ?? 1;
+  const seed = options.seed ?? effects.seed;
+  const layout = layoutArtworkForOutput(options.width, options.height, effects);
+  const geometry = buildGeometry(layout, effects, seed, source);
+
+  target.save();
+  target.setTransform(dpr, 0, 0, dpr, 0, 0);
+  target.clearRect(0, 0, layout.width, layout.height);
+  drawPaper(target, geometry, effects, resolvePaperPalette(effects, source), dpr);
+  drawImageLayer(target, geometry, source);
+
+  const tile = buildPaperTexture(effects, seed);
+  const tileCanvas = createLayer(tile.pixels.width, tile.pixels.height);
+  getLayerContext(tileCanvas).putImageData(tile.pixels, 0, 0);
+  drawPaperTexture(target, geometry, tileCanvas, tile, effects);
+  target.restore();
+}
@@ -0,0 +1,455 @@
+/**
+ * Render stages and the AppliedEffects keys that invalidate them.
+ * Stage builders draw onto any 2D context, so the cached renderer and one-shot renders share them.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { mapRange } from '@/lib/render/math';
+import { mapEffect } from '@/lib/effect-registry';
+import { EDGE_SAMPLES_PER_TOOTH, generateEdgeProfile } from '@/lib/render/edges';
+import { createRandom, deriveSeed, type RandomSource } from '@/lib/random';
+import { polygonArea, traceSubjectOutline, type Point } from '@/lib/render/contour';
+import { resolveLight, shadowFromLight, type LightModel } from '@/lib/render/light';
+import { resolveShadowPasses, type ShadowPass } from '@/lib/render/shadows';
+import { mixColors, rgbaString, type PaperPalette, type Rgb } from '@/lib/render/colors';
+import { TEXTURE_TILE_SIZE, generatePaperTexture, type PaperTextureTile } from '@/lib/render/textures';
+import type { ArtworkLayout, RenderContext } from '@/lib/render/render-artwork';
+
+export type RenderStage = 'geometry' | 'paper' | 'image' | 'texture';
+
+// Stages every other stage is built from; rebuilding one rebuilds everything downstream of it
+export const STAGE_UPSTREAM: Record<RenderStage, RenderStage[]> = {
+  geometry: [],
+  paper: ['geometry'],
+  image: ['geometry'],
+  texture: [],
+};
+
+// Which stages each setting feeds. An empty list means the setting only affects compositing (or the page).
+export const STAGE_INVALIDATION: Record<keyof AppliedEffects, RenderStage[]> = {
+  animSize: ['geometry'],
+  animEdgeThickness: ['geometry'],
+  animEdgeIntensity: ['geometry'],
+  animEdgeDetails: ['geometry'],
+  animCutoutStyle: ['geometry'],
+  cutoutMode: ['geometry'],
+  animTextureStrength: [],
+  paperTexture: ['texture'],
+  paperColor: ['paper'],
+  paperFillMode: ['paper'],
+  paperColorAuto: ['paper'],
+  lightAngle: ['paper', 'texture'],
+  lightElevation: ['paper', 'texture'],
+  lightIntensity: ['paper', 'texture'],
+  animShadowOffsetX: [], // Legacy, folded into the light by normalizeEffects
+  animShadowOffsetY: [],
+  animShadowBlur: ['paper'],
+  animShadowStrength: ['paper'],
+  shadowColor: ['paper'],
+  shadowType: ['paper'],
+  contactShadowSpread: ['paper'],
+  liftedCorners: ['paper'],
+  cornerLift: ['paper'],
+  pageBow: ['paper'],
+  animMovement: [],
+  seed: ['geometry', 'texture'],
+};
+
+// Stages that must be rebuilt when the given settings change, downstream stages included
+export function stagesAffectedBy(keys: Array<keyof AppliedEffects>): Set<RenderStage> {
+  const affected = new Set<RenderStage>();
+  keys.forEach((key) => STAGE_INVALIDATION[key].forEach((stage) => affected.add(stage)));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    (Object.keys(STAGE_UPSTREAM) as RenderStage[]).forEach((stage) => {
+      if (!affected.has(stage) && STAGE_UPSTREAM[stage].some((upstream) => affected.has(upstream))) {
+        affected.add(stage);
+        grew = true;
+      }
+    });
+  }
+  return affected;
+}
+
+// Cache key fragment made of exactly the settings that feed a stage
+export function stageInputKey(stage: RenderStage, effects: AppliedEffects): string {
+  return (Object.keys(STAGE_INVALIDATION) as Array<keyof AppliedEffects>)
+    .filter((key) => STAGE_INVALIDATION[key].includes(stage))
+    .map((key) => `${key}=${effects[key]}`)
+    .join('&');
+}
+
+// Content short side (px) at which pixel-valued settings such as shadow offsets apply unscaled
+const REFERENCE_CONTENT_SIZE = 400;
+
+// Independent random streams derived from the effects seed
+const RANDOM_STREAMS = {
+  topEdge: 1,
+  rightEdge: 2,
+  bottomEdge: 3,
+  leftEdge: 4,
+  texture: 5,
+  fibreBand: 6,
+  fibreStrands: 7,
+} as const;
+
+export interface ArtworkGeometry {
+  layout: ArtworkLayout;
+  unit: number; // Scale of pixel-valued settings relative to the reference size
+  paperPath: Path2D; // Torn outline, or the plain rectangle / subject contour when the tear is disabled
+  facePath: Path2D; // Inner tear line bounding the paper face; the band outside it is the exposed core
+  fibrePath: Path2D | null; // Loose fibre strands along the torn edge
+  fibreWidth: number; // Stroke width of a single strand
+  coreBandWidth: number; // Mean width of the exposed core band
+  edge: EdgeOutline; // Outer edge as points with inward normals, for light-dependent shading
+  torn: boolean;
+}
+
+// Closed outline as points with unit normals pointing into the paper
+export interface EdgeOutline {
+  points: Point[];
+  normals: Point[];
+}
+
+// Per-point core band widths: a smoothed random walk around the mean width
+function generateBandWidths(count: number, meanWidth: number, random: RandomSource): number[] {
+  const widths: number[] = [];
+  let wander = 0;
+  for (let i = 0; i < count; i++) {
+    wander = wander * 0.85 + (random() - 0.5) * 0.5;
+    widths.push(meanWidth * Math.max(0.2, 1 + wander));
+  }
+  return widths;
+}
+
+// Move every outline point inward along its normal
+function offsetOutline(outline: EdgeOutline, offsets: (i: number) => number): EdgeOutline {
+  return {
+    points: outline.points.map(([x, y], i) => [x + outline.normals[i][0] * offsets(i), y + outline.normals[i][1] * offsets(i)]),
+    normals: outline.normals,
+  };
+}
+
+// Rectangle outline running clockwise round the canvas, each side displaced inward by its profile
+function rectangleOutline(topTear: number[], rightTear: number[], bottomTear: number[], leftTear: number[], width: number, height: number): EdgeOutline {
+  const points: Point[] = [];
+  const normals: Point[] = [];
+  const along = (profile: number[], i: number) => i / (profile.length - 1);
+
+  // Top edge - left to right
+  topTear.forEach((inward, i) => {
+    points.push([along(topTear, i) * width, inward]);
+    normals.push([0, 1]);
+  });
+  // Right edge - top to bottom
+  rightTear.forEach((inward, i) => {
+    points.push([width - inward, along(rightTear, i) * height]);
+    normals.push([-1, 0]);
+  });
+  // Bottom edge - right to left
+  for (let i = bottomTear.length - 1; i >= 0; i--) {
+    points.push([along(bottomTear, i) * width, height - bottomTear[i]]);
+    normals.push([0, -1]);
+  }
+  // Left edge - bottom to top
+  for (let i = leftTear.length - 1; i >= 0; i--) {
+    points.push([leftTear[i], along(leftTear, i) * height]);
+    normals.push([1, 0]);
+  }
+
+  return { points, normals };
+}
+
+// Resample a closed polygon to `count` evenly spaced points with inward normals
+function resampleOutline(polygon: Point[], count: number): EdgeOutline {
+  const lengths: number[] = [];
+  let perimeter = 0;
+  polygon.forEach(([x, y], i) => {
+    const [nx, ny] = polygon[(i + 1) % polygon.length];
+    const length = Math.hypot(nx - x, ny - y);
+    lengths.push(length);
+    perimeter += length;
+  });
+
+  const points: Point[] = [];
+  let segment = 0;
+  let segmentStart = 0;
+  for (let n = 0; n < count; n++) {
+    const distance = (n / count) * perimeter;
+    while (segment < polygon.length - 1 && segmentStart + lengths[segment] < distance) {
+      segmentStart += lengths[segment];
+      segment++;
+    }
+    const t = lengths[segment] > 0 ? (distance - segmentStart) / lengths[segment] : 0;
+    const [x1, y1] = polygon[segment];
+    const [x2, y2] = polygon[(segment + 1) % polygon.length];
+    points.push([x1 + (x2 - x1) * t, y1 + (y2 - y1) * t]);
+  }
+
+  // Positive shoelace area means clockwise on screen (y down), where inward is the tangent turned right
+  const orientation = polygonArea(polygon) >= 0 ? 1 : -1;
+  const normals = points.map((_, i): Point => {
+    const [px, py] = points[(i - 1 + count) % count];
+    const [nx, ny] = points[(i + 1) % count];
+    const length = Math.hypot(nx - px, ny - py) || 1;
+    return [(-(ny - py) / length) * orientation, ((nx - px) / length) * orientation];
+  });
+
+  return { points, normals };
+}
+
+function perimeterOf(polygon: Point[]): number {
+  return polygon.reduce((total, [x, y], i) => {
+    const [nx, ny] = polygon[(i + 1) % polygon.length];
+    return total + Math.hypot(nx - x, ny - y);
+  }, 0);
+}
+
+// Smooth closed path through the outline points, curving through the midpoints between them
+function buildOutlinePath({ points }: EdgeOutline): Path2D {
+  const path = new Path2D();
+  const midpoint = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const start = midpoint(points[points.length - 1], points[0]);
+  path.moveTo(start[0], start[1]);
+  points.forEach((point, i) => {
+    const [cpX, cpY] = midpoint(point, points[(i + 1) % points.length]);
+    path.quadraticCurveTo(point[0], point[1], cpX, cpY);
+  });
+  path.closePath();
+  return path;
+}
+
+// Hair-like strands leaving the torn edge at random points, curling as they go
+function buildFibreStrands(outline: EdgeOutline, count: number, strandLength: number, random: RandomSource): Path2D {
+  const fibres = new Path2D();
+  for (let n = 0; n < count; n++) {
+    const index = Math.floor(random() * outline.points.length);
+    const [x, y] = outline.points[index];
+    const [inX, inY] = outline.normals[index];
+    // Strands start inside the core band and reach out past the edge at a slant
+    const length = strandLength * (0.4 + random() * 0.9);
+    const slant = (random() - 0.5) * 1.2;
+    const startX = x + inX * length * 0.3;
+    const startY = y + inY * length * 0.3;
+    const endX = x - inX * length * 0.7 - inY * slant * length;
+    const endY = y - inY * length * 0.7 + inX * slant * length;
+    const curl = (random() - 0.5) * length;
+    fibres.moveTo(startX, startY);
+    fibres.quadraticCurveTo((startX + endX) / 2 - inY * curl, (startY + endY) / 2 + inX * curl, endX, endY);
+  }
+  return fibres;
+}
+
+// Geometry stage: paper outline for the layout, following the subject of transparent images in subject mode
+export function buildGeometry(layout: ArtworkLayout, effects: AppliedEffects, seed: number, source: CanvasImageSource): ArtworkGeometry {
+  const { width, height, contentWidth, contentHeight, borderThickness } = layout;
+
+  // Pixel-valued settings are defined at the reference size and scale with the content
+  const unit = Math.min(contentWidth, contentHeight) / REFERENCE_CONTENT_SIZE;
+  const torn = borderThickness > 2 && effects.animEdgeIntensity > 5;
+  const subject = effects.cutoutMode === 'subject' ? traceSubjectOutline(source, layout, borderThickness) : null;
+
+  if (!torn && !subject) {
+    const paperPath = new Path2D();
+    paperPath.rect(0, 0, width, height);
+    const edge: EdgeOutline = {
+      points: [[0, 0], [width, 0], [width, height], [0, height]],
+      normals: [[0, 1], [-1, 0], [0, -1], [1, 0]],
+    };
+    return { layout, unit, paperPath, facePath: paperPath, fibrePath: null, fibreWidth: 0, coreBandWidth: 0, edge, torn };
+  }
+
+  // Generate natural torn paper shape
+  const tearIntensity = torn ? mapEffect(effects, 'animEdgeIntensity') * borderThickness : 0;
+  // Teeth per shorter side, so patterned edges keep their proportions at any canvas size
+  const teethPerSide = mapEffect(effects, 'animEdgeDetails');
+  const shortSide = Math.min(width, height);
+  const teethAlong = (length: number) => Math.max(2, Math.round(teethPerSide * length / shortSide));
+
+  let outline: EdgeOutline;
+  let totalTeeth: number;
+  if (subject) {
+    // Tear noise runs along the dilated subject contour
+    totalTeeth = teethAlong(perimeterOf(subject));
+    const numPoints = totalTeeth * EDGE_SAMPLES_PER_TOOTH;
+    const contour = resampleOutline(subject, numPoints);
+    const profile = generateEdgeProfile(effects.animCutoutStyle, numPoints, tearIntensity, totalTeeth, deriveSeed(seed, RANDOM_STREAMS.topEdge));
+    outline = offsetOutline(contour, (i) => profile[i]);
+  } else {
+    const horizontalTeeth = teethAlong(width);
+    const verticalTeeth = teethAlong(height);
+    const horizontalPoints = horizontalTeeth * EDGE_SAMPLES_PER_TOOTH;
+    const verticalPoints = verticalTeeth * EDGE_SAMPLES_PER_TOOTH;
+    totalTeeth = 2 * (horizontalTeeth + verticalTeeth);
+
+    // Generate inward edge offsets for each side
+    const topTear = generateEdgeProfile(effects.animCutoutStyle, horizontalPoints, tearIntensity, horizontalTeeth, deriveSeed(seed, RANDOM_STREAMS.topEdge));
+    const rightTear = generateEdgeProfile(effects.animCutoutStyle, verticalPoints, tearIntensity, verticalTeeth, deriveSeed(seed, RANDOM_STREAMS.rightEdge));
+    const bottomTear = generateEdgeProfile(effects.animCutoutStyle, horizontalPoints, tearIntensity, horizontalTeeth, deriveSeed(seed, RANDOM_STREAMS.bottomEdge));
+    const leftTear = generateEdgeProfile(effects.animCutoutStyle, verticalPoints, tearIntensity, verticalTeeth, deriveSeed(seed, RANDOM_STREAMS.leftEdge));
+    outline = rectangleOutline(topTear, rightTear, bottomTear, leftTear, width, height);
+  }
+
+  const paperPath = buildOutlinePath(outline);
+  if (!torn) {
+    return { layout, unit, paperPath, facePath: paperPath, fibrePath: null, fibreWidth: 0, coreBandWidth: 0, edge: outline, torn };
+  }
+
+  // The paper face tore a little further in than the core: offset the outline by a wandering band
+  const coreBandWidth = borderThickness * mapRange(effects.animEdgeThickness, 0, 100, 0.1, 0.3);
+  const bands = generateBandWidths(outline.points.length, coreBandWidth, createRandom(deriveSeed(seed, RANDOM_STREAMS.fibreBand)));
+  const facePath = buildOutlinePath(offsetOutline(outline, (i) => bands[i]));
+
+  const strandsPerTooth = mapRange(effects.animEdgeDetails, 0, 100, 0.5, 3);
+  const fibrePath = buildFibreStrands(
+    outline,
+    Math.round(totalTeeth * strandsPerTooth),
+    coreBandWidth * 2,
+    createRandom(deriveSeed(seed, RANDOM_STREAMS.fibreStrands))
+  );
+  const fibreWidth = Math.max(0.3, 0.6 * unit);
+
+  return { layout, unit, paperPath, facePath, fibrePath, fibreWidth, coreBandWidth, edge: outline, torn };
+}
+
+function fillPaper(ctx: RenderContext, path: Path2D, width: number, height: number, palette: PaperPalette): void {
+  // Create paper background with slight texture
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, rgbaString(palette.face, 1));
+  gradient.addColorStop(0.5, rgbaString(mixColors(palette.face, palette.faceShade, 0.5), 1));
+  gradient.addColorStop(1, rgbaString(palette.faceShade, 1));
+  ctx.fillStyle = gradient;
+  ctx.fill(path);
+}
+
+// Brightness buckets for edge shading; segments sharing a bucket are stroked together
+const EDGE_SHADE_LEVELS = 8;
+
+// Light the paper edge: highlights where it faces the light, darker rims on the far side
+function drawEdgeShading(ctx: RenderContext, edge: EdgeOutline, light: LightModel, shadowColor: Rgb, lineWidth: number): void {
+  const highlights: Path2D[] = Array.from({ length: EDGE_SHADE_LEVELS }, () => new Path2D());
+  const rims: Path2D[] = Array.from({ length: EDGE_SHADE_LEVELS }, () => new Path2D());
+  const { points, normals } = edge;
+
+  points.forEach(([x, y], i) => {
+    const [nextX, nextY] = points[(i + 1) % points.length];
+    // Outward normal against the light's direction on the page; overhead light shades nothing
+    const facing = -(normals[i][0] * light.vector[0] + normals[i][1] * light.vector[1]);
+    const level = Math.min(EDGE_SHADE_LEVELS - 1, Math.floor(Math.abs(facing) * EDGE_SHADE_LEVELS));
+    const bucket = facing >= 0 ? highlights[level] : rims[level];
+    bucket.moveTo(x, y);
+    bucket.lineTo(nextX, nextY);
+  });
+
+  ctx.save();
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  for (let level = 0; level < EDGE_SHADE_LEVELS; level++) {
+    const amount = ((level + 0.5) / EDGE_SHADE_LEVELS) * light.intensity;
+    // A faint rim everywhere keeps the edge readable on white backgrounds
+    ctx.strokeStyle = rgbaString(shadowColor, Math.min(1, 0.06 + 0.2 * amount));
+    ctx.stroke(rims[level]);
+    ctx.strokeStyle = rgbaString(shadowColor, 0.06);
+    ctx.stroke(highlights[level]);
+    ctx.strokeStyle = `rgba(255, 255, 255, ${Math.min(1, 0.35 * amount)})`;
+    ctx.stroke(highlights[level]);
+  }
+  ctx.restore();
+}
+
+// Casts only the shadow of a shape: the shape itself is drawn off the canvas and its shadow offset back into place
+function castShadow(ctx: RenderContext, path: Path2D, pass: ShadowPass, color: Rgb, layout: ArtworkLayout, unit: number, dpr: number): void {
+  const shift = (layout.width + layout.height) * 2;
+  ctx.save();
+  ctx.translate(-shift, 0);
+  // Canvas shadows ignore the transform, so they are given in device pixels
+  ctx.shadowColor = rgbaString(color, pass.alpha);
+  ctx.shadowBlur = pass.blur * unit * dpr;
+  ctx.shadowOffsetX = (pass.offsetX * unit + shift) * dpr;
+  ctx.shadowOffsetY = pass.offsetY * unit * dpr;
+  ctx.fillStyle = '#000000';
+  ctx.fill(path);
+  ctx.restore();
+}
+
+// Paper stage: shadows for the shadow type, core and face fills, fibres and edge shading, in CSS pixels scaled by dpr
+export function drawPaper(ctx: RenderContext, geometry: ArtworkGeometry, effects: AppliedEffects, palette: PaperPalette, dpr: number): void {
+  const { layout, unit, paperPath, facePath, fibrePath, fibreWidth, coreBandWidth, edge, torn } = geometry;
+  const light = resolveLight(effects);
+  const shadow = shadowFromLight(light, effects);
+
+  resolveShadowPasses(effects, shadow, edge.points, layout.width, layout.height, unit).forEach((pass) => {
+    const path = pass.outline ? buildOutlinePath({ points: pass.outline, normals: edge.normals }) : paperPath;
+    castShadow(ctx, path, pass, palette.shadow, layout, unit, dpr);
+  });
+
+  ctx.fillStyle = rgbaString(torn ? palette.core : palette.face, 1);
+  ctx.fill(paperPath);
+
+  if (torn && fibrePath) {
+    // Loose fibres: a faint dark halo keeps them visible on light backgrounds
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = rgbaString(palette.shadow, 0.08);
+    ctx.lineWidth = fibreWidth * 2;
+    ctx.stroke(fibrePath);
+    ctx.strokeStyle = rgbaString(palette.core, 0.9);
+    ctx.lineWidth = fibreWidth;
+    ctx.stroke(fibrePath);
+    ctx.restore();
+  }
+
+  // Add light-dependent edge shading for depth
+  drawEdgeShading(ctx, edge, light, palette.shadow, Math.max(1 / dpr, unit));
+
+  if (!torn) return;
+
+  // Paper face inside the inner tear line, feathered into the core
+  fillPaper(ctx, facePath, layout.width, layout.height, palette);
+  ctx.save();
+  ctx.clip(facePath);
+  ctx.globalAlpha = 0.5;
+  ctx.strokeStyle = rgbaString(palette.core, 1);
+  ctx.lineWidth = coreBandWidth * 0.6;
+  ctx.stroke(facePath);
+  ctx.restore();
+}
+
+// Image stage: the source clipped to the paper face, leaving the torn core visible
+export function drawImageLayer(ctx: RenderContext, geometry: ArtworkGeometry, source: CanvasImageSource): void {
+  const { layout, facePath } = geometry;
+  ctx.save();
+  ctx.clip(facePath);
+  ctx.drawImage(source, layout.borderThickness, layout.borderThickness, layout.contentWidth, layout.contentHeight);
+  ctx.restore();
+}
+
+// Texture tile pixels per CSS pixel at the reference size, so tiles stay crisp on 2x displays
+const TEXTURE_TILE_DENSITY = 2;
+
+// Texture stage: seeded tile of the selected paper texture, relief lit by the scene light
+export function buildPaperTexture(effects: AppliedEffects, seed: number): PaperTextureTile {
+  return generatePaperTexture(effects.paperTexture, createRandom(deriveSeed(seed, RANDOM_STREAMS.texture)), resolveLight(effects));
+}
+
+// Composite the paper texture over whatever is on ctx, restricted to the paper face
+export function drawPaperTexture(ctx: RenderContext, geometry: ArtworkGeometry, tileCanvas: CanvasImageSource, tile: PaperTextureTile, effects: AppliedEffects): void {
+  const textureStrength = mapEffect(effects, 'animTextureStrength');
+  if (textureStrength <= 0) return;
+
+  const { layout, unit } = geometry;
+  // Tiles scale with the content, so exports keep the preview's texture size
+  const tileSize = (TEXTURE_TILE_SIZE / TEXTURE_TILE_DENSITY) * unit;
+  ctx.save();
+  ctx.clip(geometry.facePath);
+  ctx.globalCompositeOperation = tile.blendMode;
+  ctx.globalAlpha = textureStrength;
+  const pattern = ctx.createPattern(tileCanvas, 'repeat');
+  if (pattern) {
+    pattern.setTransform(new DOMMatrix().scale(tileSize / tile.pixels.width));
+    ctx.fillStyle = pattern;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+  }
+  ctx.restore();
+}
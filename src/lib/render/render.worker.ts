@@ -0,0 +1,73 @@
+/**
+ * Render worker: draws artwork frames on an OffscreenCanvas off the main thread.
+ * Only the newest requested frame is rendered; superseded and cancelled frames are dropped.
+ * Stage layers are cached between frames, so a tweak only rebuilds the stages it affects.
+ */
+
+import { createStagedRenderer } from '@/lib/render/render-artwork';
+import type { RenderWorkerRequest, RenderWorkerResponse } from '@/lib/render/worker-protocol';
+
+type RenderRequest = Extract<RenderWorkerRequest, { type: 'render' }>;
+
+const worker = self as unknown as Worker;
+const sources = new Map<number, ImageBitmap>();
+const renderer = createStagedRenderer();
+let pending: RenderRequest | null = null;
+let cancelledUpTo = -1;
+let scheduled = false;
+
+function post(message: RenderWorkerResponse, transfer: Transferable[] = []) {
+  worker.postMessage(message, transfer);
+}
+
+function renderPending() {
+  scheduled = false;
+  const request = pending;
+  pending = null;
+  if (!request || request.frameId <= cancelledUpTo) return;
+
+  const source = sources.get(request.sourceId);
+  if (!source) {
+    post({ type: 'error', frameId: request.frameId, message: 'Source image is not loaded' });
+    return;
+  }
+
+  try {
+    const dpr = request.options.dpr ?? 1;
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(request.options.width * dpr)),
+      Math.max(1, Math.round(request.options.height * dpr))
+    );
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+    renderer.render(source, request.effects, ctx, request.options);
+    const bitmap = canvas.transferToImageBitmap();
+    post({ type: 'frame', frameId: request.frameId, bitmap }, [bitmap]);
+  } catch (error) {
+    post({ type: 'error', frameId: request.frameId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+worker.onmessage = (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'source':
+      // Only the latest source is kept
+      sources.forEach((bitmap) => bitmap.close());
+      sources.clear();
+      renderer.clear();
+      sources.set(message.sourceId, message.bitmap);
+      break;
+    case 'render':
+      pending = message;
+      // Defer so render requests already queued behind this one can replace it
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(renderPending, 0);
+      }
+      break;
+    case 'cancel':
+      cancelledUpTo = Math.max(cancelledUpTo, message.frameId);
+      break;
+  }
+};
@@ -0,0 +1,23 @@
+/**
+ * Shadow type and lifted corner options, kept free of rendering code so settings and UI can share them.
+ */
+
+export const SHADOW_TYPES = ['flat', 'contact', 'lifted-corner', 'page-bow'] as const;
+export type ShadowType = typeof SHADOW_TYPES[number];
+
+export const SHADOW_TYPE_LABELS: Record<ShadowType, string> = {
+  flat: 'Flat drop',
+  contact: 'Contact',
+  'lifted-corner': 'Lifted corner',
+  'page-bow': 'Page bow',
+};
+
+export const PAPER_CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'] as const;
+export type PaperCorner = typeof PAPER_CORNERS[number];
+
+export const PAPER_CORNER_LABELS: Record<PaperCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-right': 'Bottom right',
+  'bottom-left': 'Bottom left',
+};
@@ -0,0 +1,106 @@
+/**
+ * Shadow types: how the paper rests on the surface and therefore which shadows it casts.
+ */
+
+import type { AppliedEffects } from '@/types';
+import type { Point } from '@/lib/render/contour';
+import type { ShadowParams } from '@/lib/render/light';
+import type { PaperCorner } from '@/lib/render/shadow-types';
+import { mapEffect } from '@/lib/effect-registry';
+
+// One shadow drawn under the paper. Offsets and blur are px at the reference size.
+export interface ShadowPass extends ShadowParams {
+  outline: Point[] | null; // Silhouette casting this shadow (layout px); null casts the paper shape as is
+}
+
+// Share of the paper's short side that curls up with a lifted corner
+const CURL_REACH = 0.6;
+
+// How far each outline point is raised, 0 on the surface to 1 at the tip of a curled corner
+function cornerLift(point: Point, corners: PaperCorner[], width: number, height: number): number {
+  const reach = Math.min(width, height) * CURL_REACH;
+  let lift = 0;
+  corners.forEach((corner) => {
+    const cx = corner.endsWith('right') ? width : 0;
+    const cy = corner.startsWith('bottom') ? height : 0;
+    const t = Math.max(0, 1 - Math.hypot(point[0] - cx, point[1] - cy) / reach);
+    // Paper curls progressively, so the height grows faster towards the tip
+    lift = Math.max(lift, t * t);
+  });
+  return lift;
+}
+
+// Bowed page: corners stay down while the middle of every side rises
+function bowLift(point: Point, width: number, height: number): number {
+  const u = Math.max(0, Math.min(1, point[0] / width));
+  const v = Math.max(0, Math.min(1, point[1] / height));
+  return Math.max(Math.sin(Math.PI * u), Math.sin(Math.PI * v));
+}
+
+// Outline pushed away from the light where the paper is raised
+function liftOutline(points: Point[], lift: (point: Point) => number, direction: Point, distance: number): Point[] {
+  return points.map((point) => {
+    const d = lift(point) * distance;
+    return [point[0] + direction[0] * d, point[1] + direction[1] * d];
+  });
+}
+
+function scaleShadow(shadow: ShadowParams, offset: number, blur: number, alpha: number): ShadowParams {
+  return {
+    offsetX: shadow.offsetX * offset,
+    offsetY: shadow.offsetY * offset,
+    blur: shadow.blur * blur,
+    alpha: Math.min(1, shadow.alpha * alpha),
+  };
+}
+
+/**
+ * Shadows to cast for the selected shadow type, drawn in order under the paper.
+ * `outline` is the paper edge in layout px and `unit` converts reference px to layout px.
+ */
+export function resolveShadowPasses(
+  effects: AppliedEffects,
+  shadow: ShadowParams,
+  outline: Point[],
+  width: number,
+  height: number,
+  unit: number
+): ShadowPass[] {
+  if (shadow.alpha <= 0) return [];
+
+  switch (effects.shadowType) {
+    case 'contact': {
+      // Dark where the paper meets the surface, fading out over the spread
+      const spread = mapEffect(effects, 'contactShadowSpread');
+      return [
+        { outline: null, ...scaleShadow(shadow, spread, spread, 0.35) },
+        { outline: null, ...scaleShadow(shadow, spread * 0.4, spread * 0.4, 0.6) },
+        { outline: null, ...scaleShadow(shadow, 0.1, 0.08, 1.6) },
+      ];
+    }
+    case 'lifted-corner':
+    case 'page-bow': {
+      // How far the highest point pushes its shadow (px at the reference size)
+      const distance = mapEffect(effects, effects.shadowType === 'page-bow' ? 'pageBow' : 'cornerLift');
+      // Raised paper still throws its shadow somewhere when the light is overhead: fall back to straight down
+      const reach = Math.hypot(shadow.offsetX, shadow.offsetY);
+      const direction: Point = reach > 0.01 ? [shadow.offsetX / reach, shadow.offsetY / reach] : [0, 1];
+      const lift =
+        effects.shadowType === 'page-bow'
+          ? (point: Point) => bowLift(point, width, height)
+          : (point: Point) => cornerLift(point, effects.liftedCorners, width, height);
+      return [
+        // Where the paper touches the surface the shadow stays tight
+        { outline: null, ...scaleShadow(shadow, 0.4, 0.5, 1) },
+        {
+          outline: liftOutline(outline, lift, direction, distance * unit),
+          ...scaleShadow(shadow, 1, 1, 0.75),
+          // The raised part is further from the surface, so its shadow is softer
+          blur: shadow.blur + distance * 0.6,
+        },
+      ];
+    }
+    default:
+      return [{ outline: null, ...shadow }];
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Procedural paper textures built from tileable noise.
+ * Each texture is a square tile plus the blend mode used to composite it onto the paper.
+ */
+
+import { smoothstep } from '@/lib/render/math';
+import type { RandomSource } from '@/lib/random';
+import type { LightModel } from '@/lib/render/light';
+
+export const PAPER_TEXTURES = ['cold-press', 'laid', 'kraft', 'newsprint', 'linen', 'rice'] as const;
+export type PaperTexture = typeof PAPER_TEXTURES[number];
+
+export const PAPER_TEXTURE_LABELS: Record<PaperTexture, string> = {
+  'cold-press': 'Cold-press watercolor',
+  laid: 'Laid paper',
+  kraft: 'Kraft',
+  newsprint: 'Newsprint',
+  linen: 'Linen',
+  rice: 'Rice paper',
+};
+
+// Tile edge length in texture pixels
+export const TEXTURE_TILE_SIZE = 256;
+
+export interface PaperTextureTile {
+  pixels: ImageData;
+  blendMode: GlobalCompositeOperation;
+}
+
+// Value noise on a period x period lattice that wraps, so the tile repeats seamlessly
+function tileableNoise(size: number, period: number, random: RandomSource, stretchX = 1): Float32Array {
+  const periodX = Math.max(1, Math.round(period / stretchX));
+  const periodY = Math.max(1, period);
+  const lattice = new Float32Array(periodX * periodY);
+  for (let i = 0; i < lattice.length; i++) lattice[i] = random();
+
+  const values = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const fy = (y / size) * periodY;
+    const y0 = Math.floor(fy);
+    const y1 = (y0 + 1) % periodY;
+    const ty = smoothstep(0, 1, fy - y0);
+    for (let x = 0; x < size; x++) {
+      const fx = (x / size) * periodX;
+      const x0 = Math.floor(fx);
+      const x1 = (x0 + 1) % periodX;
+      const tx = smoothstep(0, 1, fx - x0);
+      const top = lattice[y0 * periodX + x0] + (lattice[y0 * periodX + x1] - lattice[y0 * periodX + x0]) * tx;
+      const bottom = lattice[y1 * periodX + x0] + (lattice[y1 * periodX + x1] - lattice[y1 * periodX + x0]) * tx;
+      values[y * size + x] = top + (bottom - top) * ty;
+    }
+  }
+  return values;
+}
+
+// Fractal sum of tileable noise octaves, normalised to 0-1
+function fractalNoise(size: number, basePeriod: number, octaves: number, random: RandomSource, stretchX = 1): Float32Array {
+  const values = new Float32Array(size * size);
+  let amplitude = 1;
+  let total = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    const layer = tileableNoise(size, basePeriod * 2 ** octave, random, stretchX);
+    for (let i = 0; i < values.length; i++) values[i] += layer[i] * amplitude;
+    total += amplitude;
+    amplitude *= 0.5;
+  }
+  for (let i = 0; i < values.length; i++) values[i] /= total;
+  return values;
+}
+
+function toImageData(size: number, shade: (index: number) => [number, number, number]): ImageData {
+  const pixels = new ImageData(size, size);
+  const data = pixels.data;
+  for (let i = 0; i < size * size; i++) {
+    const [r, g, b] = shade(i);
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = 255;
+  }
+  return pixels;
+}
+
+// Shade a wrapping height field under the light: slopes facing it brighten, the rest darken (grey = flat)
+function shadeRelief(height: Float32Array, size: number, light: LightModel, depth: number): ImageData {
+  const [lx, ly, lz] = light.vector;
+  return toImageData(size, (i) => {
+    const x = i % size;
+    const y = Math.floor(i / size);
+    const dx = (height[y * size + ((x + 1) % size)] - height[y * size + ((x - 1 + size) % size)]) * depth;
+    const dy = (height[((y + 1) % size) * size + x] - height[((y - 1 + size) % size) * size + x]) * depth;
+    // Lambert term of the surface normal (-dx, -dy, 1) relative to flat paper
+    const lambert = (-dx * lx - dy * ly + lz) / Math.sqrt(dx * dx + dy * dy + 1);
+    const v = 128 + (lambert - lz) * 160 * light.intensity;
+    return [v, v, v];
+  });
+}
+
+// Cold-press watercolor: soft, pitted relief lit by the scene light
+function coldPress(size: number, random: RandomSource, light: LightModel): PaperTextureTile {
+  const relief = fractalNoise(size, 8, 5, random);
+  return {
+    pixels: shadeRelief(relief, size, light, 4),
+    blendMode: 'overlay',
+  };
+}
+
+// Laid paper: fine horizontal laid lines crossed by sparse vertical chain lines
+function laid(size: number, random: RandomSource): PaperTextureTile {
+  const mottle = fractalNoise(size, 4, 3, random);
+  const chainSpacing = size / 4;
+  return {
+    pixels: toImageData(size, (i) => {
+      const x = i % size;
+      const y = Math.floor(i / size);
+      const laidLine = 0.5 + 0.5 * Math.sin((y / size) * Math.PI * 2 * 64);
+      const chainDistance = Math.abs(((x + chainSpacing / 2) % chainSpacing) - chainSpacing / 2);
+      const chain = chainDistance < 1.5 ? 1 - chainDistance / 1.5 : 0;
+      const v = 255 - laidLine * 14 - chain * 28 - mottle[i] * 12;
+      return [v, v, v - 2];
+    }),
+    blendMode: 'multiply',
+  };
+}
+
+// Kraft: brown stock with long, horizontally stretched fibres
+function kraft(size: number, random: RandomSource): PaperTextureTile {
+  const fibres = fractalNoise(size, 16, 4, random, 6);
+  const blotches = fractalNoise(size, 4, 2, random);
+  return {
+    pixels: toImageData(size, (i) => {
+      const tone = 0.85 + (fibres[i] - 0.5) * 0.25 + (blotches[i] - 0.5) * 0.1;
+      return [222 * tone, 184 * tone, 136 * tone];
+    }),
+    blendMode: 'multiply',
+  };
+}
+
+// Newsprint: greyish, mottled stock with dark specks of recycled pulp
+function newsprint(size: number, random: RandomSource): PaperTextureTile {
+  const mottle = fractalNoise(size, 16, 3, random);
+  const specks = new Uint8Array(size * size);
+  const speckCount = Math.round(size * size * 0.002);
+  for (let n = 0; n < speckCount; n++) {
+    specks[Math.floor(random() * size * size)] = 1 + Math.floor(random() * 3);
+  }
+  return {
+    pixels: toImageData(size, (i) => {
+      const v = 238 - mottle[i] * 20 - specks[i] * 40;
+      return [v, v - 2, v - 6];
+    }),
+    blendMode: 'multiply',
+  };
+}
+
+// Linen: irregular cross weave of warp and weft threads, lit by the scene light
+function linen(size: number, random: RandomSource, light: LightModel): PaperTextureTile {
+  const warp = fractalNoise(size, 8, 2, random, 0.25);
+  const weft = fractalNoise(size, 32, 2, random, 4);
+  const threads = size / 8;
+  const weave = new Float32Array(size * size);
+  for (let i = 0; i < weave.length; i++) {
+    const x = i % size;
+    const y = Math.floor(i / size);
+    const vertical = Math.sin((x / size) * Math.PI * 2 * threads) * (0.5 + warp[i]);
+    const horizontal = Math.sin((y / size) * Math.PI * 2 * threads) * (0.5 + weft[i]);
+    weave[i] = (vertical + horizontal) * 0.25;
+  }
+  return {
+    pixels: shadeRelief(weave, size, light, 1),
+    blendMode: 'overlay',
+  };
+}
+
+// Rice paper: translucent cloudy base with long, wandering fibres
+function rice(size: number, random: RandomSource): PaperTextureTile {
+  const clouds = fractalNoise(size, 4, 4, random);
+  const fibres = new Float32Array(size * size);
+  const fibreCount = 60;
+  for (let n = 0; n < fibreCount; n++) {
+    let x = random() * size;
+    let y = random() * size;
+    let angle = random() * Math.PI * 2;
+    const length = size * (0.1 + random() * 0.4);
+    const darkness = 0.3 + random() * 0.7;
+    for (let step = 0; step < length; step++) {
+      angle += (random() - 0.5) * 0.3;
+      x = (x + Math.cos(angle) + size) % size;
+      y = (y + Math.sin(angle) + size) % size;
+      const index = Math.floor(y) * size + Math.floor(x);
+      fibres[index] = Math.max(fibres[index], darkness);
+    }
+  }
+  return {
+    pixels: toImageData(size, (i) => {
+      const v = 250 - clouds[i] * 18 - fibres[i] * 45;
+      return [v, v - 1, v - 4];
+    }),
+    blendMode: 'multiply',
+  };
+}
+
+const textureGenerators: Record<PaperTexture, (size: number, random: RandomSource, light: LightModel) => PaperTextureTile> = {
+  'cold-press': coldPress,
+  laid,
+  kraft,
+  newsprint,
+  linen,
+  rice,
+};
+
+export function generatePaperTexture(texture: PaperTexture, random: RandomSource, light: LightModel, size = TEXTURE_TILE_SIZE): PaperTextureTile {
+  return textureGenerators[texture](size, random, light);
+}
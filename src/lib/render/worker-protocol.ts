@@ -0,0 +1,29 @@
+import type { AppliedEffects } from '@/types';
+import type { RenderOptions } from '@/lib/render/render-artwork';
+import type { ExportSettings } from '@/lib/export';
+
+// Messages from the main thread to the render worker
+export type RenderWorkerRequest =
+  | { type: 'source'; sourceId: number; bitmap: ImageBitmap }
+  | { type: 'render'; frameId: number; sourceId: number; effects: AppliedEffects; options: RenderOptions }
+  | { type: 'cancel'; frameId: number }; // Drops every frame up to and including frameId
+
+// Messages from the render worker back to the main thread
+export type RenderWorkerResponse =
+  | { type: 'frame'; frameId: number; bitmap: ImageBitmap }
+  | { type: 'error'; frameId: number; message: string };
+
+// Messages from the main thread to the batch worker: one full-resolution export per job
+export type BatchWorkerRequest = {
+  type: 'export';
+  jobId: number;
+  file: Blob;
+  effects: AppliedEffects;
+  settings: Pick<ExportSettings, 'format' | 'quality' | 'scale' | 'metadata'>;
+  background: string | null; // Resolved on the main thread, which can read the theme
+};
+
+// Messages from the batch worker back to the main thread
+export type BatchWorkerResponse =
+  | { type: 'exported'; jobId: number; blob: Blob; width: number; height: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,155 @@
+/**
+ * Checks run on every uploaded file before it is decoded: the real format from its magic
+ * bytes, the file size, and the pixel dimensions read from the header against what the
+ * browser can hold in a canvas. Each problem carries a user-facing title and description.
+ */
+
+import { decodeImageFile, imageSize, releaseImage } from '@/lib/decode';
+import {
+  dimensionsOf,
+  IMAGE_FORMAT_LABELS,
+  IMAGE_FORMAT_TYPES,
+  IMAGE_FORMATS,
+  readHeader,
+  sniffFormat,
+  type ImageFormat,
+} from '@/lib/image-format';
+
+export interface UploadLimits {
+  maxBytes: number;
+  maxDimension: number; // Longest side in px
+  maxPixels: number; // Width × height; browsers refuse canvases much beyond this
+}
+
+// Conservative defaults: Safari caps canvases at 16,384 px a side and roughly 268 MP in total
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxBytes: 80 * 1024 * 1024,
+  maxDimension: 16_384,
+  maxPixels: 64_000_000,
+};
+
+export interface UploadInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+export type UploadProblem =
+  | { kind: 'empty' }
+  | { kind: 'unsupported-type'; type: string }
+  | { kind: 'corrupt'; format: ImageFormat | null }
+  | { kind: 'type-mismatch'; type: string; format: ImageFormat }
+  | { kind: 'too-large'; bytes: number; maxBytes: number }
+  | { kind: 'too-many-pixels'; info: UploadInfo; fit: { width: number; height: number } };
+
+export type UploadCheck = { ok: true; info: UploadInfo } | { ok: false; problem: UploadProblem };
+
+// Non-standard types some systems still report for these formats
+const IMAGE_TYPE_ALIASES: Partial<Record<ImageFormat, string[]>> = {
+  png: ['image/x-png'],
+  jpeg: ['image/jpg', 'image/pjpeg'],
+  bmp: ['image/x-bmp', 'image/x-ms-bmp'],
+  tiff: ['image/tif', 'image/x-tiff'],
+};
+
+// Types that say nothing about the content, so there is nothing to contradict
+const UNDECLARED_TYPES = ['', 'application/octet-stream'];
+
+function declaresFormat(type: string, format: ImageFormat): boolean {
+  return UNDECLARED_TYPES.includes(type) || type === IMAGE_FORMAT_TYPES[format] || (IMAGE_TYPE_ALIASES[format] ?? []).includes(type);
+}
+
+// Largest size with the same aspect ratio that fits the limits
+export function fitWithinLimits(width: number, height: number, limits: UploadLimits): { width: number; height: number } {
+  const scale = Math.min(1, limits.maxDimension / Math.max(width, height), Math.sqrt(limits.maxPixels / (width * height)));
+  return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+}
+
+export async function validateUpload(file: File, limits: UploadLimits = DEFAULT_UPLOAD_LIMITS): Promise<UploadCheck> {
+  if (file.size === 0) return { ok: false, problem: { kind: 'empty' } };
+
+  const head = await readHeader(file);
+  const format = sniffFormat(head);
+  if (!format) {
+    // A declared image type whose bytes don't match is damaged rather than unsupported
+    const declaredImage = IMAGE_FORMATS.some((candidate) => IMAGE_FORMAT_TYPES[candidate] === file.type);
+    return { ok: false, problem: declaredImage ? { kind: 'corrupt', format: null } : { kind: 'unsupported-type', type: file.type } };
+  }
+  // The declared type and the bytes must agree, e.g. no JPEG data in a file named .png
+  if (!declaresFormat(file.type, format)) return { ok: false, problem: { kind: 'type-mismatch', type: file.type, format } };
+  if (file.size > limits.maxBytes) return { ok: false, problem: { kind: 'too-large', bytes: file.size, maxBytes: limits.maxBytes } };
+
+  const dimensions = await dimensionsOf(file, head, format);
+  if (!dimensions || dimensions.width < 1 || dimensions.height < 1) return { ok: false, problem: { kind: 'corrupt', format } };
+  const info: UploadInfo = { format, ...dimensions };
+  const { width, height } = dimensions;
+  // SVGs are rasterized at a size of our choosing, so only bitmaps can be too large
+  if (format !== 'svg' && (Math.max(width, height) > limits.maxDimension || width * height > limits.maxPixels)) {
+    return { ok: false, problem: { kind: 'too-many-pixels', info, fit: fitWithinLimits(width, height, limits) } };
+  }
+  return { ok: true, info };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+export function describeUploadProblem(problem: UploadProblem, fileName: string): { title: string; description: string } {
+  switch (problem.kind) {
+    case 'empty':
+      return { title: 'Empty File', description: `${fileName} contains no data.` };
+    case 'unsupported-type':
+      return {
+        title: 'Unsupported File',
+        description: `${fileName} is not a supported image. Use ${IMAGE_FORMATS.map((format) => IMAGE_FORMAT_LABELS[format]).join(', ')}.`,
+      };
+    case 'corrupt':
+      return {
+        title: 'Damaged Image',
+        description: problem.format
+          ? `${fileName} looks like a ${IMAGE_FORMAT_LABELS[problem.format]} but its header can't be read.`
+          : `${fileName} doesn't contain the image data its file type promises.`,
+      };
+    case 'type-mismatch':
+      return {
+        title: 'Mismatched File Type',
+        description: `${fileName} is labelled ${problem.type} but contains a ${IMAGE_FORMAT_LABELS[problem.format]} image. Rename it with the right extension and try again.`,
+      };
+    case 'too-large':
+      return {
+        title: 'File Too Large',
+        description: `${fileName} is ${formatBytes(problem.bytes)}; the limit is ${formatBytes(problem.maxBytes)}.`,
+      };
+    case 'too-many-pixels':
+      return {
+        title: 'Image Too Large',
+        description: `${fileName} is ${problem.info.width}×${problem.info.height}px, more than the browser can edit. Downscale it to ${problem.fit.width}×${problem.fit.height}px?`,
+      };
+  }
+}
+
+/**
+ * Re-encode an oversized image at `size`, decoding straight to the smaller size where the
+ * browser supports it. JPEGs stay JPEG; everything else becomes PNG to keep transparency.
+ */
+export async function downscaleImageFile(file: File, size: { width: number; height: number }): Promise<File> {
+  const image = await decodeImageFile(file, { maxDimension: Math.max(size.width, size.height) });
+  try {
+    // `size` comes from the stored pixels; the decoded image is already turned upright
+    const decoded = imageSize(image);
+    const { width, height } = decoded.width > decoded.height !== size.width > size.height ? { width: size.height, height: size.width } : size;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(image, 0, 0, width, height);
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92));
+    if (!blob) throw new Error(`${file.name} could not be downscaled`);
+    const extension = type === 'image/jpeg' ? 'jpg' : 'png';
+    return new File([blob], `${file.name.replace(/\.[^.]+$/, '')}.${extension}`, { type });
+  } finally {
+    releaseImage(image);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Effect settings in the page URL, so a look can be shared as a link. Only settings
+ * that differ from the defaults are written; values are checked against the registry on read.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { initialEffects } from '@/types';
+import { normalizeEffects } from '@/lib/effects';
+import { EFFECT_KEYS, getParameter } from '@/lib/effect-registry';
+
+const LIST_SEPARATOR = ',';
+
+export function effectsToSearchParams(effects: AppliedEffects): URLSearchParams {
+  const params = new URLSearchParams();
+  EFFECT_KEYS.forEach((key) => {
+    const value = effects[key];
+    const initial = initialEffects[key];
+    if (Array.isArray(value) && Array.isArray(initial)) {
+      if (value.join(LIST_SEPARATOR) !== initial.join(LIST_SEPARATOR)) params.set(key, value.join(LIST_SEPARATOR));
+    } else if (value !== initial) {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+}
+
+// Settings found in the URL; null when it has none, so the defaults stay untouched
+export function effectsFromSearchParams(params: URLSearchParams): AppliedEffects | null {
+  const values: Record<string, unknown> = {};
+  EFFECT_KEYS.forEach((key) => {
+    const raw = params.get(key);
+    if (raw === null) return;
+    switch (getParameter(key).kind) {
+      case 'range':
+      case 'seed':
+        values[key] = Number(raw);
+        break;
+      case 'toggle':
+        values[key] = raw === 'true';
+        break;
+      case 'set':
+        values[key] = raw ? raw.split(LIST_SEPARATOR) : [];
+        break;
+      default:
+        values[key] = raw;
+    }
+  });
+  return Object.keys(values).length > 0 ? normalizeEffects(values) : null;
+}
+
+// The current URL with its settings replaced by `effects`, keeping unrelated parameters
+export function urlWithEffects(href: string, effects: AppliedEffects): string {
+  const url = new URL(href);
+  EFFECT_KEYS.forEach((key) => url.searchParams.delete(key));
+  effectsToSearchParams(effects).forEach((value, key) => url.searchParams.set(key, value));
+  return url.toString();
+}
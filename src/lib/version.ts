@@ -0,0 +1,4 @@
+import { version } from '../../package.json';
+
+// Recorded in exports and project files so they can be traced back to the app that wrote them
+export const APP_VERSION: string = version;
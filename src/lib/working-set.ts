@@ -0,0 +1,53 @@
+/**
+ * The working set: every image uploaded in this session, each with its own effect settings
+ * and undo history, so switching images never loses work.
+ */
+
+import type { AppliedEffects } from '@/types';
+import { createHistory, type EffectsHistory } from '@/lib/history';
+import { createId } from '@/lib/utils';
+import { decodeImageFile, imageSize, releaseImage } from '@/lib/decode';
+import { canvasToBlob } from '@/lib/export';
+
+// Strip tiles are 64px; twice that stays sharp on high-DPI screens
+const THUMBNAIL_SIZE = 128;
+
+export interface WorkingImage {
+  id: string;
+  file: File;
+  thumbnailUrl: string; // Object URL of the file, then of its small copy; revoke with releaseWorkingImage
+  history: EffectsHistory; // Saved when another image becomes active; the live one is in the editor
+  frame: number; // Animation frame or page being edited, for sources that have several
+}
+
+export function createWorkingImage(file: File, effects: AppliedEffects): WorkingImage {
+  return { id: createId(), file, thumbnailUrl: URL.createObjectURL(file), history: createHistory(effects), frame: 0 };
+}
+
+// Small PNG for the strip, so each thumbnail doesn't keep a full-size decode alive
+export async function createThumbnailUrl(file: File): Promise<string> {
+  const image = await decodeImageFile(file, { maxDimension: THUMBNAIL_SIZE });
+  try {
+    const { width, height } = imageSize(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(image, 0, 0);
+    return URL.createObjectURL(await canvasToBlob(canvas, 'image/png'));
+  } finally {
+    releaseImage(image);
+  }
+}
+
+export function releaseWorkingImage(image: WorkingImage): void {
+  URL.revokeObjectURL(image.thumbnailUrl);
+}
+
+// The image to show after removing `id`: the next one, or the previous one at the end of the strip
+export function neighbourAfterRemoval(images: WorkingImage[], id: string): WorkingImage | null {
+  const index = images.findIndex((image) => image.id === id);
+  if (index === -1) return null;
+  return images[index + 1] ?? images[index - 1] ?? null;
+}
@@ -1,3 +1,9 @@
+import type { PaperTexture } from '@/lib/render/textures';
+import type { CutoutMode } from '@/lib/render/contour';
+import type { PaperCorner, ShadowType } from '@/lib/render/shadow-types';
+import type { PaperFillMode } from '@/lib/render/colors';
+import { defaultEffects } from '@/lib/effect-registry';
+
 
 export interface AppliedEffects {
   // New Animation Settings
@@ -5,28 +11,32 @@ export interface AppliedEffects {
   animEdgeThickness: number; // 0-100, maps to pixel thickness for edges
   animEdgeIntensity: number; // 0-100, maps to amplitude of edge cuts
   animEdgeDetails: number; // 0-100, maps to complexity/frequency of edge cuts
-  animCutoutStyle: number; // 0-100, general parameter for edge style variation
+  animCutoutStyle: number; // 0-100, blends edge families: torn, deckled, pinking, perforated, scalloped, clean cut
+  cutoutMode: CutoutMode; // 'subject' traces the alpha contour of transparent images instead of the rectangle
   animTextureStrength: number; // 0-100, for opacity of canvas texture
-  animShadowOffsetX: number; // 0-100, maps to px offset (-val to +val)
-  animShadowOffsetY: number; // 0-100, maps to px offset (-val to +val)
+  paperTexture: PaperTexture; // Procedural paper stock composited over the paper shape
+  paperColor: string; // Hex colour of the paper stock
+  paperFillMode: PaperFillMode; // Subtle diagonal gradient or a flat fill
+  paperColorAuto: boolean; // Tint white stock towards the image's dominant colour instead of using paperColor
+  lightAngle: number; // 0-360 degrees, direction the light comes from, clockwise from the top
+  lightElevation: number; // 0-100, height of the light above the page; low light casts long shadows
+  lightIntensity: number; // 0-100, contrast of the shadow, edge highlights and texture relief
   animShadowBlur: number; // 0-100, maps to px blur radius
   animShadowStrength: number; // 0-100, maps to shadow alpha
+  shadowColor: string; // Hex colour of the shadow and the dark side of the edge shading
+  shadowType: ShadowType; // How the paper rests on the surface: flat drop, contact, lifted corner or page bow
+  contactShadowSpread: number; // 0-100, how far a contact shadow fades out from the edge
+  liftedCorners: PaperCorner[]; // Corners curling off the surface for the lifted-corner shadow
+  cornerLift: number; // 0-100, how high the lifted corners curl
+  pageBow: number; // 0-100, how far the middle of each side bows off the surface
   animMovement: number; // 0-100, controls floating animation intensity
+  seed: number; // 32-bit seed for tear geometry and grain, so a look can be reproduced exactly
 
   // Old properties to be removed (or kept if some base functionality remains)
   // For now, we are removing them as the new controls are comprehensive.
+  animShadowOffsetX?: number; // Legacy 0-100 (-15..15 px); normalizeEffects maps it onto the light
+  animShadowOffsetY?: number; // Legacy 0-100 (-15..15 px); normalizeEffects maps it onto the light
 }
 
-export const initialEffects: AppliedEffects = {
-  animSize: 50,
-  animEdgeThickness: 35,
-  animEdgeIntensity: 60, // Slightly more intense tear by default
-  animEdgeDetails: 60,   // More detail in tear by default
-  animCutoutStyle: 50,
-  animTextureStrength: 30,
-  animShadowOffsetX: 55, // Default to a slight positive X offset
-  animShadowOffsetY: 60, // Default to a more noticeable positive Y offset
-  animShadowBlur: 60,    // Default to a softer blur
-  animShadowStrength: 55, // Default to a moderate shadow strength
-  animMovement: 0,       // No movement by default to better see static effects
-};
+// Defaults live with each setting's range and mapping in the effect registry
+export const initialEffects: AppliedEffects = defaultEffects();